@@ -0,0 +1,390 @@
+import { IdentifierKind } from "@xmtp/node-sdk";
+import { banInbox, unbanInbox } from "../game/bans.js";
+import { closeActiveConfession, removeConfession, resetGame, revealActiveRound } from "../game/confessions.js";
+import { announceNextConfession, formatConfessor, notifyConfessor } from "../game/announcements.js";
+import { findGameMode, GAME_MODES, getCurrentGameMode, setGameMode } from "../game/modes/index.js";
+import { findPseudonymOwner, parsePseudonym } from "../game/pseudonyms.js";
+import { claimMessageAction } from "../game/replays.js";
+import { getAddressFromXMTPIdentity, isEthereumAddress, isSameString, isWebUrl, resolveInboxId } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import { formatUsage, parseTargetId } from "./registry.js";
+import type { Command, CommandContext } from "./types.js";
+
+export const skipCommand: Command = {
+  name: "skip",
+  usage: "/skip [#id]",
+  description: "End an open confession without revealing who made it",
+  example: "/skip #3",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, store, rounds, events, messages, message, now, audit, senderInboxId, args, reply, t } = ctx;
+    const { id } = parseTargetId(args);
+    const { closed, next, repeated } = await closeActiveConfession(store, "expired", rounds, id, now(), message.id);
+    if (closed && repeated) {
+      await reply(t("admin.skipDone", { id: closed.id }));
+      return;
+    }
+    if (!closed) {
+      await reply(id === undefined ? t("admin.skipNone") : t("admin.notOpen", { id }));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "skip", target: `#${closed.id}` });
+    events.emit({ type: "round_end", id: closed.id, outcome: "skipped" });
+    await group.send(messages.translator()("admin.skipped", { id: closed.id, question: closed.question }));
+    await notifyConfessor(ctx, closed, "confessor.skipped");
+    await announceNextConfession(ctx, next);
+    await reply(t("admin.skipDone", { id: closed.id }));
+  },
+};
+
+export const revealCommand: Command = {
+  name: "reveal",
+  usage: "/reveal [#id]",
+  description: "End an open round and reveal its answer: who confessed, or which statement was the lie",
+  example: "/reveal #3",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, store, rounds, events, messages, message, now, audit, senderInboxId, args, reply, t } = ctx;
+    const { id } = parseTargetId(args);
+    const { closed, end, next, repeated } = await revealActiveRound(store, rounds, id, now(), message.id);
+    if (closed && repeated) {
+      await reply(t("admin.revealDone", { id: closed.id }));
+      return;
+    }
+    if (!closed || !end) {
+      await reply(id === undefined ? t("admin.revealNone") : t("admin.notOpen", { id }));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "reveal", target: `#${closed.id}` });
+    events.emit({ type: "round_end", id: closed.id, outcome: "revealed", confessor: formatConfessor(closed), points: end.points });
+    await group.send(messages.translator()(end.announcement.key, end.announcement.vars));
+    await notifyConfessor(ctx, closed, end.submitterNotice.key, end.submitterNotice.vars);
+    await announceNextConfession(ctx, next);
+    await reply(t("admin.revealDone", { id: closed.id }));
+  },
+};
+
+export const modeCommand: Command = {
+  name: "mode",
+  aliases: ["game"],
+  usage: "/mode [game]",
+  description: "Show or switch the game the group plays: confessions or two-truths",
+  example: "/mode two-truths",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, store, events, messages, audit, senderInboxId, args, reply, t } = ctx;
+    const available = GAME_MODES.map((mode) => mode.id).join(", ");
+    if (!args) {
+      const current = await getCurrentGameMode(store);
+      await reply(t("admin.modeCurrent", { mode: t(current.nameKey), available }));
+      return;
+    }
+    const mode = findGameMode(args);
+    if (!mode) {
+      await reply(t("admin.modeUnknown", { name: args, available }));
+      return;
+    }
+    const previous = await setGameMode(store, mode.id);
+    if (previous.id === mode.id) {
+      await reply(t("admin.modeAlready", { mode: t(mode.nameKey) }));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "mode", target: mode.id, details: previous.id });
+    events.emit({ type: "mode", mode: mode.id });
+    // Rounds already queued or open play out in the game they were submitted for
+    const groupT = messages.translator();
+    await group.send(groupT("mode.switched", { mode: groupT(mode.nameKey), howTo: groupT(mode.howToKey) }));
+    await reply(t("admin.modeDone", { mode: t(mode.nameKey) }));
+  },
+};
+
+export const removeCommand: Command = {
+  name: "remove",
+  usage: "/remove [confession id]",
+  description: "Delete a confession, whether it's active or waiting",
+  example: "/remove 3",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { store, rounds, events, now, audit, senderInboxId, args, reply, t } = ctx;
+    const id = Number.parseInt(args.replace("#", ""), 10);
+    if (Number.isNaN(id)) {
+      await reply(formatUsage(removeCommand, ctx));
+      return;
+    }
+    const { removed, next } = await removeConfession(store, id, rounds, now());
+    if (!removed) {
+      await reply(t("admin.removeNotFound", { id }));
+      return;
+    }
+    await audit.record({
+      adminInboxId: senderInboxId,
+      action: "remove",
+      target: `#${id}`,
+      details: removed.question,
+    });
+    events.emit({ type: "removed", id });
+    await announceNextConfession(ctx, next);
+    await reply(t("admin.removeDone", { id }));
+  },
+};
+
+export const kickCommand: Command = {
+  name: "kick",
+  usage: "/kick [address]",
+  description: "Remove a member from the group",
+  example: "/kick 0x1234...",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, audit, senderInboxId, args, reply, t } = ctx;
+    if (!isEthereumAddress(args)) {
+      await reply(formatUsage(kickCommand, ctx));
+      return;
+    }
+    try {
+      await group.removeMembersByIdentifiers([
+        { identifier: args.toLowerCase(), identifierKind: IdentifierKind.Ethereum },
+      ]);
+    } catch (error) {
+      logger.error(`Failed to kick ${args} from ${group.name}: ${error instanceof Error ? error.message : String(error)}`);
+      await reply(t("admin.kickFailed", { member: args }));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "kick", target: args.toLowerCase() });
+    await reply(t("admin.kickDone", { member: args }));
+  },
+};
+
+export const banCommand: Command = {
+  name: "ban",
+  usage: "/ban [address or inbox id]",
+  description: "Remove someone from the group and ignore everything they send",
+  example: "/ban 0x1234...",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { client, group, store, audit, senderInboxId, args, reply, t } = ctx;
+    if (!args) {
+      await reply(formatUsage(banCommand, ctx));
+      return;
+    }
+    const inboxId = await resolveInboxId(client, args);
+    if (!inboxId) {
+      await reply(t("admin.notOnXmtp", { member: args }));
+      return;
+    }
+    if (!(await banInbox(store, inboxId))) {
+      await reply(t("admin.alreadyBanned", { member: args }));
+      return;
+    }
+    try {
+      await group.removeMembers([inboxId]);
+    } catch (error) {
+      // Not being a member is fine; the ban still keeps them from playing
+      logger.info(`Could not remove banned inbox ${inboxId} from ${group.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "ban", target: inboxId });
+    await reply(t("admin.banDone", { member: args }));
+  },
+};
+
+export const unbanCommand: Command = {
+  name: "unban",
+  usage: "/unban [address or inbox id]",
+  description: "Lift a ban",
+  example: "/unban 0x1234...",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { client, store, audit, senderInboxId, args, reply, t } = ctx;
+    if (!args) {
+      await reply(formatUsage(unbanCommand, ctx));
+      return;
+    }
+    const inboxId = await resolveInboxId(client, args);
+    if (!inboxId || !(await unbanInbox(store, inboxId))) {
+      await reply(t("admin.notBanned", { member: args }));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "unban", target: inboxId });
+    await reply(t("admin.unbanDone", { member: args }));
+  },
+};
+
+export const resetCommand: Command = {
+  name: "reset",
+  usage: "/reset",
+  description: "Delete every confession and all scores",
+  scope: "dm",
+  adminOnly: true,
+  handler: async ({ group, store, events, messages, audit, message, senderInboxId, reply, t }) => {
+    if (!(await resetGame(store, message.id))) {
+      await reply(t("admin.resetDone"));
+      return;
+    }
+    await audit.record({ adminInboxId: senderInboxId, action: "reset" });
+    events.emit({ type: "reset" });
+    await group.send(messages.translator()("admin.reset"));
+    await reply(t("admin.resetDone"));
+  },
+};
+
+export const announceCommand: Command = {
+  name: "announce",
+  usage: "/announce [message]",
+  description: "Post an announcement to the group",
+  example: "/announce Last round starts in 10 minutes!",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, store, events, messages, audit, message, senderInboxId, args, reply, t } = ctx;
+    if (!args) {
+      await reply(formatUsage(announceCommand, ctx));
+      return;
+    }
+    if (!(await claimMessageAction(store, message.id))) {
+      await reply(t("admin.announceDone"));
+      return;
+    }
+    events.emit({ type: "announcement", text: args });
+    await group.send(messages.translator()("admin.announcement", { text: args }));
+    await audit.record({ adminInboxId: senderInboxId, action: "announce", details: args });
+    await reply(t("admin.announceDone"));
+  },
+};
+
+export const unmaskCommand: Command = {
+  name: "unmask",
+  usage: "/unmask [pseudonym]",
+  description: "Show who is behind a /shh pseudonym (only when revealToAdmins is set in the config)",
+  example: "/unmask Anon Pepper #3",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { client, names, shh, now, audit, senderInboxId, args, reply, t } = ctx;
+    if (!shh.revealToAdmins) {
+      await reply(t("admin.unmaskDisabled"));
+      return;
+    }
+    const parsed = parsePseudonym(args);
+    if (!parsed) {
+      await reply(formatUsage(unmaskCommand, ctx));
+      return;
+    }
+    // Past sessions too, since abuse is often reported after the fact
+    const owner = await findPseudonymOwner(ctx, parsed, now(), { includeExpired: true });
+    if (!owner) {
+      await reply(t("admin.unmaskNotFound", { name: args }));
+      return;
+    }
+    const address = await getAddressFromXMTPIdentity(client, owner.inboxId);
+    const name = address ? await names.resolveName(address) : undefined;
+    await audit.record({ adminInboxId: senderInboxId, action: "unmask", target: owner.pseudonym.name });
+    await reply(
+      t("admin.unmaskDone", {
+        name: owner.pseudonym.name,
+        member: [name, address ?? owner.inboxId].filter(Boolean).join(" "),
+      })
+    );
+  },
+};
+
+// Helper to change one of the group chat's details, with an audit entry
+async function updateGroupDetail(
+  ctx: CommandContext,
+  action: string,
+  update: () => Promise<void>,
+  doneKey: "admin.groupNameDone" | "admin.groupDescriptionDone" | "admin.groupImageDone"
+) {
+  const { group, audit, senderInboxId, args, reply, t } = ctx;
+  try {
+    await update();
+  } catch (error) {
+    logger.error(`Failed to run /${action} on ${group.name}: ${error instanceof Error ? error.message : String(error)}`);
+    await reply(t("admin.groupUpdateFailed"));
+    return;
+  }
+  await audit.record({ adminInboxId: senderInboxId, action, details: args });
+  await reply(t(doneKey, { value: args }));
+}
+
+export const groupNameCommand: Command = {
+  name: "groupname",
+  aliases: ["rename"],
+  usage: "/groupname [new name]",
+  description: "Rename the group chat",
+  example: "/groupname 🌶️ Summit Confessions",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { games, group, args, reply, t } = ctx;
+    if (!args) {
+      await reply(formatUsage(groupNameCommand, ctx));
+      return;
+    }
+    // Players /join groups by name, so two can't share one
+    if (games.some((game) => game.group.id !== group.id && isSameString(game.group.name, args))) {
+      await reply(t("admin.groupNameTaken", { value: args }));
+      return;
+    }
+    await updateGroupDetail(ctx, "groupname", () => group.updateName(args), "admin.groupNameDone");
+  },
+};
+
+export const groupDescriptionCommand: Command = {
+  name: "groupdescription",
+  usage: "/groupdescription [new description]",
+  description: "Change the group chat's description",
+  example: "/groupdescription Anonymous confessions for Base Summit",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, args, reply } = ctx;
+    if (!args) {
+      await reply(formatUsage(groupDescriptionCommand, ctx));
+      return;
+    }
+    await updateGroupDetail(ctx, "groupdescription", () => group.updateDescription(args), "admin.groupDescriptionDone");
+  },
+};
+
+export const groupImageCommand: Command = {
+  name: "groupimage",
+  usage: "/groupimage [image URL]",
+  description: "Change the group chat's image",
+  example: "/groupimage https://example.com/spicy.png",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (ctx) => {
+    const { group, args, reply, t } = ctx;
+    if (!args) {
+      await reply(formatUsage(groupImageCommand, ctx));
+      return;
+    }
+    if (!isWebUrl(args)) {
+      await reply(t("admin.groupImageInvalid", { value: args }));
+      return;
+    }
+    await updateGroupDetail(ctx, "groupimage", () => group.updateImageUrl(args), "admin.groupImageDone");
+  },
+};
+
+export const adminCommands = [
+  skipCommand,
+  revealCommand,
+  modeCommand,
+  removeCommand,
+  kickCommand,
+  banCommand,
+  unbanCommand,
+  resetCommand,
+  announceCommand,
+  unmaskCommand,
+  groupNameCommand,
+  groupDescriptionCommand,
+  groupImageCommand,
+];
@@ -0,0 +1,142 @@
+import { saveConfession } from "../game/confessions.js";
+import { confessionMode, getCurrentGameMode, getGameMode, type GameMode, type RoundContent } from "../game/modes/index.js";
+import { findContentViolation, formatReviewRequest, queueSubmission } from "../game/moderation.js";
+import { recordConfessionMessage } from "../game/reactions.js";
+import { getRoundMode } from "../game/rounds.js";
+import type { PlayerIdentity } from "../game/scoring.js";
+import { getAddressFromXMTPIdentity } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import { metrics } from "../helpers/metrics.js";
+import type { Translate } from "../messages/index.js";
+import type { Confession } from "../store/index.js";
+import { isGroupMember, notifyAdmins } from "../offsite.js";
+import { formatUsage } from "./registry.js";
+import type { Command, CommandContext } from "./types.js";
+
+// Saves a round of the given game and announces it if it went straight to the front of the
+// queue. Returns the saved round, or undefined if saving failed.
+export async function publishConfession(
+  { group, store, rounds, events, messages, message, now }: Pick<CommandContext, "group" | "store" | "rounds" | "events" | "messages" | "message" | "now">,
+  mode: GameMode,
+  content: RoundContent,
+  confessor: PlayerIdentity & { address: string }
+) {
+  const saved = await saveConfession(store, mode.id, content, confessor, rounds, now(), message.id);
+  if (saved && !saved.repeated) {
+    metrics.confessions.inc();
+  }
+  // A round saved earlier by the same message is announced only if that didn't happen yet
+  if (saved?.confession.status === "active" && !saved.confession.messageIds?.length) {
+    const announcement = mode.formatRoundStart(saved.confession, false);
+    events.emit({ type: "confession", id: saved.confession.id, question: saved.confession.question });
+    const messageId = await group.send(messages.translator()(announcement.key, announcement.vars));
+    await recordConfessionMessage(store, saved.confession.id, messageId);
+  }
+  return saved;
+}
+
+export function formatConfessionSavedReply({ confession, queuePosition }: { confession: Confession; queuePosition: number }, t: Translate) {
+  const mode = getGameMode(getRoundMode(confession));
+  return queuePosition === 0 ? t(mode.savedLiveKey) : t(mode.savedQueuedKey, { position: queuePosition });
+}
+
+// Handles a submission command for one game: checks the text and saves the round, or holds it
+// for review. Only members of the group can submit; nobody is added without sending /join.
+// Refused while the group is playing another game.
+export async function submitRound(ctx: CommandContext, mode: GameMode, command: Command) {
+  const { client, group, games, store, names, moderation, messages, message, adminAddresses, senderInboxId, args, reply, t } = ctx;
+  try {
+    if (!(await isGroupMember(group, senderInboxId))) {
+      const game = games.find((g) => g.group.id === group.id);
+      await reply(t("confession.joinFirst", { group: group.name, command: games.length > 1 && game ? `/join ${game.id}` : "/join" }));
+      return;
+    }
+  } catch (e) {
+    logger.error(`Failed to check whether the sender is in ${group.name}: ${e instanceof Error ? e.message : String(e)}`);
+    await reply(t("confession.failed"));
+    return;
+  }
+
+  const current = await getCurrentGameMode(store);
+  if (current.id !== mode.id) {
+    await reply(t("mode.wrongSubmit", { group: group.name, mode: t(current.nameKey), howTo: t(current.howToKey) }));
+    return;
+  }
+
+  // If no content provided, send instructions
+  if (!args) {
+    await reply(formatUsage(command, ctx));
+    return;
+  }
+
+  const content = mode.parseSubmission(args);
+  if ("error" in content) {
+    await reply(t(content.error.key, content.error.vars));
+    return;
+  }
+  const violation = findContentViolation(args, moderation);
+  if (violation) {
+    await reply(t("confession.blocked", { reason: t(violation) }));
+    return;
+  }
+
+  // The answer comes from the sender's own identity, so nobody can confess as someone else
+  const address = await getAddressFromXMTPIdentity(client, senderInboxId);
+  if (!address) {
+    logger.error("Could not find an address for the sender");
+    await reply(t("confession.noAddress"));
+    return;
+  }
+  const name = await names.resolveName(address);
+
+  try {
+    if (moderation.reviewMode) {
+      const queued = await queueSubmission(store, {
+        kind: "confession",
+        text: content.question,
+        customHint: content.customHint,
+        mode: mode.id === "confessions" ? undefined : mode.id,
+        statements: content.statements,
+        lieNumber: content.lieNumber,
+        submitterInboxId: senderInboxId,
+        submitterAddress: address,
+        submitterName: name,
+        sourceMessageId: message.id,
+      });
+      const game = games.length > 1 ? games.find((g) => g.group.id === group.id) : undefined;
+      const request = formatReviewRequest(queued, messages.translator(), { name: group.name, id: game?.id });
+      await notifyAdmins(client, group, adminAddresses, request);
+      await reply(t("confession.awaitingReview"));
+      return;
+    }
+
+    const saved = await publishConfession(ctx, mode, content, { inboxId: senderInboxId, address, name });
+    if (saved) {
+      await reply(formatConfessionSavedReply(saved, t));
+      // Without a name the group has to guess an address; the other games don't hide who's playing
+      if (!name && mode.id === "confessions") {
+        await reply(t("confession.noName"));
+      }
+    } else {
+      await reply(t("confession.saveFailed"));
+    }
+  } catch (error) {
+    logger.error(`Error processing confession: ${error}`);
+    if (error instanceof Error) {
+      logger.error(`Error stack: ${error.stack}`);
+    }
+    await reply(t("confession.failed"));
+  }
+}
+
+export const confessCommand: Command = {
+  name: "confess",
+  usage: "/confess [your confession] hint: [optional hint]",
+  description: "Make a confession",
+  example: "/confess I love pizza hint: I never skip lunch",
+  scope: "dm",
+  anonymous: true,
+  handler: async (ctx) => {
+    await submitRound(ctx, confessionMode, confessCommand);
+  },
+};
@@ -0,0 +1,41 @@
+import { getGameMode } from "../game/modes/index.js";
+import { getActiveConfessions, getRoundMode } from "../game/rounds.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+export const currentCommand: Command = {
+  name: "current",
+  usage: "/current",
+  description: "Show the confessions that are up for guessing",
+  scope: "any",
+  handler: async ({ store, rules, reply, t }) => {
+    try {
+      const gameData = await store.read();
+
+      const openConfessions = getActiveConfessions(gameData);
+
+      if (openConfessions.length === 1) {
+        const [currentConfession] = openConfessions;
+        if (getRoundMode(currentConfession) === "confessions") {
+          await reply(t("current.one", { id: currentConfession.id, question: currentConfession.question }));
+        } else {
+          // Other games' rounds read the same as when they went live
+          const { key, vars } = getGameMode(getRoundMode(currentConfession)).formatRoundStart(currentConfession, false);
+          await reply(t(key, vars));
+        }
+      } else if (openConfessions.length > 1) {
+        const lines = openConfessions.map((q) =>
+          getRoundMode(q) === "confessions"
+            ? t("current.line", { id: q.id, question: q.question, wrong: q.incorrectGuesses, max: rules.maxIncorrectGuesses })
+            : t("current.lineVotes", { id: q.id, question: q.question, votes: q.votes?.length ?? 0 })
+        );
+        await reply(t("current.many", { list: lines.join("\n") }));
+      } else {
+        await reply(t("current.none"));
+      }
+    } catch (error) {
+      logger.error(`Failed to get current confession: ${error}`);
+      await reply(t("current.failed"));
+    }
+  },
+};
@@ -0,0 +1,125 @@
+import { checkGuess } from "../game/confessions.js";
+import { announceNextConfession, notifyConfessor } from "../game/announcements.js";
+import { formatHint } from "../game/hints.js";
+import { getPlayerTranslator } from "../game/languages.js";
+import { formatLeaderboard, formatPlayerName } from "../game/scoring.js";
+import { getAddressFromXMTPIdentity, sendDirectMessage } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import { metrics } from "../helpers/metrics.js";
+import { formatUsage, parseCommandTarget } from "./registry.js";
+import type { Command } from "./types.js";
+
+export const guessCommand: Command = {
+  name: "guess",
+  usage: "/guess [#id] [name or address]",
+  description: "Guess who made a confession (the oldest open one unless you give its #id)",
+  example: "/guess #3 alice",
+  scope: "any",
+  handler: async (ctx) => {
+    const { client, group, store, names, rules, rounds, events, messages, message, now, senderInboxId, isDm, reply, react, t } = ctx;
+    const { id: targetId, rest: guess } = await parseCommandTarget(ctx);
+    if (!guess) {
+      await reply(formatUsage(guessCommand, ctx));
+      return;
+    }
+    // Broadcasts are in the group's language, whichever language the guess came in
+    const groupT = messages.translator();
+
+    try {
+      const address = await getAddressFromXMTPIdentity(client, senderInboxId);
+      const guesser = {
+        inboxId: senderInboxId,
+        address,
+        name: address ? await names.resolveName(address) : undefined,
+      };
+      const result = await checkGuess(store, "guess", guess, guesser, rules, rounds, targetId, now(), message.id);
+      if (result.repeated) {
+        return;
+      }
+
+      if (result.noRound) {
+        const { wrongCommand } = result.noRound;
+        await reply(
+          wrongCommand
+            ? t(wrongCommand.key, wrongCommand.vars)
+            : targetId === undefined
+              ? t("guess.noGame")
+              : t("guess.notOpen", { id: targetId })
+        );
+        return;
+      }
+
+      if (result.rejection) {
+        // Keep refusals out of the group chat
+        const { key, vars } = result.rejection;
+        if (isDm) {
+          await reply(t(key, vars));
+        } else {
+          const dmT = await getPlayerTranslator(ctx, senderInboxId);
+          await sendDirectMessage(client, senderInboxId, dmT(key, vars));
+        }
+        return;
+      }
+
+      if (result.error || !result.confession) {
+        await reply(t(result.error?.key ?? "guess.failed", result.error?.vars));
+        return;
+      }
+
+      const { confession, match, end } = result;
+      const correct = match === "correct";
+      const close = match === "close";
+      metrics.guesses.inc({ result: match ?? "wrong" });
+
+      // The guess counted as the last wrong one: the confession survived, so the confessor scores
+      if (end?.status === "expired") {
+        await react("❌");
+        await reply(t("guess.gameOver", { max: rules.maxIncorrectGuesses }));
+        events.emit({ type: "round_end", id: confession.id, outcome: "survived", points: end.points });
+        await group.send(
+          groupT("round.survived", { id: confession.id, question: confession.question, points: end.points }) +
+          (result.leaderboard ? `\n\n${formatLeaderboard(result.leaderboard, groupT)}` : "")
+        );
+        await notifyConfessor(ctx, confession, "confessor.survived", { points: end.points });
+
+        // If there's a next confession, broadcast it
+        await announceNextConfession(ctx, result.nextConfession);
+        return;
+      }
+
+      const guesserName = formatPlayerName(guesser);
+      events.emit({ type: "guess", id: confession.id, guesser: guesserName, correct, close });
+
+      if (correct) {
+        const points = end?.points ?? 0;
+        events.emit({ type: "round_end", id: confession.id, outcome: "solved", guesser: guesserName, points });
+        await react("✅");
+        await group.send(
+          groupT("guess.correct", { name: guesserName, id: confession.id, points }) +
+          (result.leaderboard ? `\n\n${formatLeaderboard(result.leaderboard, groupT)}` : "")
+        );
+        logger.info(`User ${guesserName} made a correct guess!`);
+        await notifyConfessor(ctx, confession, "confessor.guessed", { name: guesserName });
+
+        // If there's a next confession, broadcast it
+        await announceNextConfession(ctx, result.nextConfession);
+      } else if (close && !rules.countNearMisses) {
+        await reply(t("guess.close", { name: guesserName, guess }));
+        logger.info(`User ${guesserName} made a near miss`);
+      } else {
+        await react("❌");
+        if (close) {
+          await reply(t("guess.closeCounted", { name: guesserName, guess }));
+        }
+        if (result.hint) {
+          events.emit({ type: "hint", id: result.hint.confessionId, hint: groupT(result.hint.hint.key, result.hint.hint.vars) });
+          await group.send(formatHint(result.hint, groupT));
+        }
+        logger.info(`User ${guesserName} made an incorrect guess`);
+      }
+    } catch (error) {
+      logger.error(`Failed to check guess: ${error}`);
+      await reply(t("guess.failed"));
+    }
+  },
+};
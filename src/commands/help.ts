@@ -0,0 +1,17 @@
+import { isAdmin } from "../offsite.js";
+import { formatHelp } from "./registry.js";
+import type { Command } from "./types.js";
+
+export const helpCommand: Command = {
+  name: "help",
+  aliases: ["commands"],
+  usage: "/help",
+  description: "List every command",
+  scope: "any",
+  handler: async (ctx) => {
+    const { client, group, adminAddresses, registry, senderInboxId, isDm, reply } = ctx;
+    // Admin commands are DM-only, so only list them there
+    const includeAdmin = isDm && (await isAdmin(client, group, adminAddresses, senderInboxId));
+    await reply(formatHelp(registry, ctx, includeAdmin));
+  },
+};
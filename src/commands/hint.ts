@@ -0,0 +1,40 @@
+import { formatHint, revealHintForActiveConfession } from "../game/hints.js";
+import { logger } from "../helpers/logger.js";
+import { parseCommandTarget } from "./registry.js";
+import type { Command } from "./types.js";
+
+export const hintCommand: Command = {
+  name: "hint",
+  usage: "/hint [#id]",
+  description: "Post a hint about a confessor to the group (lowers the points for everyone)",
+  example: "/hint #3",
+  scope: "any",
+  handler: async (ctx) => {
+    const { group, store, events, messages, message, isDm, reply, t } = ctx;
+    try {
+      const { id } = await parseCommandTarget(ctx);
+      const { confession, revealed, repeated } = await revealHintForActiveConfession(store, id, message.id);
+      if (repeated) {
+        return;
+      }
+      if (!confession) {
+        await reply(id === undefined ? t("hint.none") : t("hint.notOpen", { id }));
+        return;
+      }
+      if (!revealed) {
+        await reply(t("hint.allOut"));
+        return;
+      }
+
+      const groupT = messages.translator();
+      events.emit({ type: "hint", id: revealed.confessionId, hint: groupT(revealed.hint.key, revealed.hint.vars) });
+      await group.send(formatHint(revealed, groupT));
+      if (isDm) {
+        await reply(t("hint.posted"));
+      }
+    } catch (error) {
+      logger.error(`Failed to reveal hint: ${error}`);
+      await reply(t("hint.failed"));
+    }
+  },
+};
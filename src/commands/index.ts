@@ -0,0 +1,48 @@
+import { adminCommands } from "./admin.js";
+import { confessCommand } from "./confess.js";
+import { currentCommand } from "./current.js";
+import { guessCommand } from "./guess.js";
+import { helpCommand } from "./help.js";
+import { joinCommand } from "./join.js";
+import { hintCommand } from "./hint.js";
+import { langCommand } from "./lang.js";
+import { leaderboardCommand } from "./leaderboard.js";
+import { leaveCommand } from "./leave.js";
+import { lieCommand } from "./lie.js";
+import { approveCommand, rejectCommand } from "./moderation.js";
+import { queueCommand, retractCommand } from "./queue.js";
+import { createCommandRegistry } from "./registry.js";
+import { shhCommand } from "./shh.js";
+import { spiciestCommand } from "./spiciest.js";
+import { statsCommand } from "./stats.js";
+import { truthsCommand } from "./truths.js";
+import { whisperCommand } from "./whisper.js";
+
+export type { BotServices, Command, CommandContext, CommandScope } from "./types.js";
+export { dispatchCommand, formatHelp, formatInstructions, type CommandRegistry } from "./registry.js";
+
+// Commands in the order they appear in /help and the welcome instructions
+export function createDefaultCommandRegistry() {
+  return createCommandRegistry([
+    confessCommand,
+    guessCommand,
+    truthsCommand,
+    lieCommand,
+    currentCommand,
+    queueCommand,
+    retractCommand,
+    hintCommand,
+    leaderboardCommand,
+    statsCommand,
+    spiciestCommand,
+    shhCommand,
+    whisperCommand,
+    joinCommand,
+    leaveCommand,
+    langCommand,
+    helpCommand,
+    ...adminCommands,
+    approveCommand,
+    rejectCommand,
+  ]);
+}
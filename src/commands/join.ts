@@ -0,0 +1,56 @@
+import { isBanned } from "../game/bans.js";
+import { getPlayerTranslator } from "../game/languages.js";
+import { addMemberWithConsent, optIn } from "../game/membership.js";
+import { findGroupGameByName, setCurrentGroupGame } from "../groups.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+export const joinCommand: Command = {
+  name: "join",
+  aliases: ["group"],
+  usage: "/join [group]",
+  description: "Join the confession group, or with several groups list them or join one and send your DM commands to it",
+  scope: "dm",
+  handler: async ({ client, games, group, senderInboxId, args, reply, t }) => {
+    // With a single group there's nothing to choose from
+    if (!args && games.length > 1) {
+      const lines = games.map((game) =>
+        t(game.group.id === group.id ? "join.lineCurrent" : "join.line", { id: game.id, name: game.group.name ?? game.id })
+      );
+      await reply(t("join.list", { groups: lines.join("\n"), example: games[games.length - 1].id }));
+      return;
+    }
+
+    const target = args ? findGroupGameByName(games, args) : games[0];
+    if (!target) {
+      await reply(t("join.unknown", { name: args }));
+      return;
+    }
+    const groupName = target.group.name ?? target.id;
+    if (await isBanned(target.services.store, senderInboxId)) {
+      await reply(t("join.banned", { group: groupName }));
+      return;
+    }
+
+    try {
+      // Asking to join is consent, so it undoes an earlier /leave
+      await optIn(target.services.store, senderInboxId);
+      const result = await addMemberWithConsent({ ...target.services, client, group: target.group }, senderInboxId);
+      if (result === "notInvited") {
+        await reply(t("join.notInvited", { group: groupName }));
+        return;
+      }
+      await setCurrentGroupGame(games, senderInboxId, target);
+      // From here on the player hears from the new group, in their language there
+      const targetT = await getPlayerTranslator(target.services, senderInboxId);
+      if (games.length === 1) {
+        await reply(targetT(result === "added" ? "welcome.added" : "join.alreadyMember", { group: groupName }));
+      } else {
+        await reply(targetT(result === "added" ? "join.joined" : "join.switched", { group: groupName }));
+      }
+    } catch (error) {
+      logger.error(`Failed to join ${target.id}: ${error}`);
+      await reply(t("join.failed"));
+    }
+  },
+};
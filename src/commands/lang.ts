@@ -0,0 +1,36 @@
+import { setPlayerLocale } from "../game/languages.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+export const langCommand: Command = {
+  name: "lang",
+  aliases: ["language"],
+  usage: "/lang [code]",
+  description: "Choose the language I use in your DMs",
+  example: "/lang es",
+  scope: "dm",
+  handler: async ({ store, messages, locale, senderInboxId, args, reply, t }) => {
+    const available = Object.entries(messages.locales)
+      .map(([code, name]) => `${name} (${code})`)
+      .join(", ");
+    if (!args) {
+      await reply(t("lang.current", { language: messages.locales[locale], available }));
+      return;
+    }
+
+    const chosen = messages.findLocale(args);
+    if (!chosen) {
+      await reply(t("lang.unknown", { code: args, available }));
+      return;
+    }
+
+    try {
+      await setPlayerLocale(store, senderInboxId, chosen);
+      // Confirm in the new language
+      await reply(messages.translator(chosen)("lang.set", { language: messages.locales[chosen] }));
+    } catch (error) {
+      logger.error(`Failed to save language: ${error}`);
+      await reply(t("error.generic"));
+    }
+  },
+};
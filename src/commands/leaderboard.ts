@@ -0,0 +1,28 @@
+import { DEFAULT_LEADERBOARD_SIZE, formatLeaderboard, getLeaderboard } from "../game/scoring.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+// Upper bound for "/leaderboard N" so one reply doesn't flood the chat
+const MAX_LEADERBOARD_SIZE = 25;
+
+export const leaderboardCommand: Command = {
+  name: "leaderboard",
+  aliases: ["top"],
+  usage: "/leaderboard [count]",
+  description: "Show the top players",
+  scope: "any",
+  handler: async ({ store, args, reply, t }) => {
+    const requested = args ? Number.parseInt(args, 10) : DEFAULT_LEADERBOARD_SIZE;
+    const size = Number.isNaN(requested)
+      ? DEFAULT_LEADERBOARD_SIZE
+      : Math.min(Math.max(requested, 1), MAX_LEADERBOARD_SIZE);
+
+    try {
+      const gameData = await store.read();
+      await reply(formatLeaderboard(getLeaderboard(gameData, size), t));
+    } catch (error) {
+      logger.error(`Failed to load leaderboard: ${error}`);
+      await reply(t("leaderboard.failed"));
+    }
+  },
+};
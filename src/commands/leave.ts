@@ -0,0 +1,53 @@
+import { getPlayerTranslator } from "../game/languages.js";
+import { optOut } from "../game/membership.js";
+import { findGroupGameByName } from "../groups.js";
+import { logger } from "../helpers/logger.js";
+import { sendDirectMessage } from "../helpers/utils.js";
+import { removeMemberIfPresent } from "../offsite.js";
+import type { Command } from "./types.js";
+
+export const leaveCommand: Command = {
+  name: "leave",
+  aliases: ["optout"],
+  usage: "/leave [group or all]",
+  description: "Leave the confession group; I won't add you back until you /join again",
+  example: "/leave all",
+  scope: "any",
+  handler: async (ctx) => {
+    const { client, games, group, senderInboxId, isDm, args, reply, t } = ctx;
+    // Without a name it's the group the command is about: this chat, or where the sender's DMs go
+    const current = games.find((game) => game.group.id === group.id) ?? games[0];
+    const leavingAll = args.toLowerCase() === "all";
+    const target = leavingAll ? undefined : args ? findGroupGameByName(games, args) : current;
+    if (!leavingAll && !target) {
+      await reply(t("join.unknown", { name: args }));
+      return;
+    }
+
+    let text: string;
+    try {
+      let removed = false;
+      for (const game of target ? [target] : games) {
+        // Opt out first, so nothing adds them back while they're being removed
+        await optOut(game.services.store, senderInboxId);
+        removed = (await removeMemberIfPresent(game.group, senderInboxId)) || removed;
+      }
+      logger.info(`User ${senderInboxId} left ${target?.id ?? "every group"}`);
+      const dmT = await getPlayerTranslator(current.services, senderInboxId);
+      text = target
+        ? dmT(removed ? "leave.done" : "leave.notMember", { group: target.group.name ?? target.id, id: target.id })
+        : dmT("leave.doneAll");
+    } catch (error) {
+      logger.error(`Failed to remove ${senderInboxId}: ${error instanceof Error ? error.message : String(error)}`);
+      await reply(t("leave.failed"));
+      return;
+    }
+
+    // Someone leaving a group chat won't see a reply there, so it goes to their DMs
+    if (isDm) {
+      await reply(text);
+    } else {
+      await sendDirectMessage(client, senderInboxId, text);
+    }
+  },
+};
@@ -0,0 +1,72 @@
+import { checkGuess } from "../game/confessions.js";
+import { getPlayerTranslator } from "../game/languages.js";
+import { parseLieChoice } from "../game/modes/index.js";
+import { formatPlayerName } from "../game/scoring.js";
+import { getAddressFromXMTPIdentity, sendDirectMessage } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { Message } from "../messages/index.js";
+import { formatUsage, parseCommandTarget } from "./registry.js";
+import type { Command } from "./types.js";
+
+export const lieCommand: Command = {
+  name: "lie",
+  usage: "/lie [#id] [1, 2 or 3]",
+  description: "Vote on which statement is the lie in Two Truths and a Lie (the oldest open round unless you give its #id)",
+  example: "/lie #5 2",
+  scope: "any",
+  handler: async (ctx) => {
+    const { client, store, names, rules, rounds, events, message, now, senderInboxId, isDm, reply, react, t } = ctx;
+    const { id: targetId, rest } = await parseCommandTarget(ctx);
+    const choice = parseLieChoice(rest);
+    if (choice === undefined) {
+      await reply(formatUsage(lieCommand, ctx));
+      return;
+    }
+
+    try {
+      const address = await getAddressFromXMTPIdentity(client, senderInboxId);
+      const voter = {
+        inboxId: senderInboxId,
+        address,
+        name: address ? await names.resolveName(address) : undefined,
+      };
+      const result = await checkGuess(store, "lie", rest, voter, rules, rounds, targetId, now(), message.id);
+      if (result.repeated) {
+        return;
+      }
+
+      // Refusals, including having nothing to vote on, are kept out of the group chat
+      const refusal: Message | undefined = result.noRound
+        ? result.noRound.wrongCommand ??
+          (targetId === undefined ? { key: "lie.noRound" } : { key: "lie.notOpen", vars: { id: targetId } })
+        : result.rejection;
+      if (refusal) {
+        const { key, vars } = refusal;
+        if (isDm) {
+          await reply(t(key, vars));
+        } else {
+          const dmT = await getPlayerTranslator(ctx, senderInboxId);
+          await sendDirectMessage(client, senderInboxId, dmT(key, vars));
+        }
+        return;
+      }
+      if (result.error) {
+        await reply(t("lie.failed"));
+        return;
+      }
+
+      if (result.confession) {
+        logger.info(`User ${formatPlayerName(voter)} voted ${choice} on #${result.confession.id}`);
+        // Only the tally goes out live; which statement people picked stays secret until the reveal
+        events.emit({ type: "vote", id: result.confession.id, votes: result.confession.votes?.length ?? 0 });
+        await react("🗳️");
+        if (isDm) {
+          await reply(t(result.changed ? "lie.changed" : "lie.voted", { id: result.confession.id, choice }));
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to record vote: ${error}`);
+      await reply(t("lie.failed"));
+    }
+  },
+};
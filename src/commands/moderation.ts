@@ -0,0 +1,139 @@
+import { getPlayerTranslator } from "../game/languages.js";
+import { takeSubmission } from "../game/moderation.js";
+import { getGameMode } from "../game/modes/index.js";
+import { findGroupGameByName } from "../groups.js";
+import { sendDirectMessage } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { Translate } from "../messages/index.js";
+import { isAdmin } from "../offsite.js";
+import { formatConfessionSavedReply, publishConfession } from "./confess.js";
+import { formatUsage } from "./registry.js";
+import { relayAnonymousMessage } from "./shh.js";
+import type { Command, CommandContext } from "./types.js";
+
+const parseSubmissionId = (args: string) => Number.parseInt(args.replace("#", ""), 10);
+
+// Reads "[group] [submission id] [rest]". Each group numbers its own submissions, so the review
+// DM names the group when there are several; without one it's the admin's current group.
+// Returns the context for that group, or undefined after telling the admin what's wrong.
+async function parseReviewTarget(ctx: CommandContext, command: Command) {
+  const { client, games, group, senderInboxId, args, reply, t } = ctx;
+  const words = args.split(/\s+/).filter(Boolean);
+  const named = words.length > 0 && Number.isNaN(parseSubmissionId(words[0])) ? words.shift() : undefined;
+  const id = parseSubmissionId(words.shift() ?? "");
+  if (Number.isNaN(id)) {
+    await reply(formatUsage(command, ctx));
+    return undefined;
+  }
+  const target = named ? findGroupGameByName(games, named) : games.find((g) => g.group.id === group.id);
+  if (!target) {
+    await reply(t("join.unknown", { name: named ?? group.name }));
+    return undefined;
+  }
+  // Being an admin of the current group doesn't make someone an admin of the one named
+  if (
+    target.group.id !== group.id &&
+    !(await isAdmin(client, target.group, target.services.adminAddresses, senderInboxId))
+  ) {
+    await reply(t("command.adminOnly", { name: command.name }));
+    return undefined;
+  }
+  return { ctx: { ...ctx, ...target.services, group: target.group }, id, rest: words.join(" ") };
+}
+
+// Lets the submitter know what happened, in their language; failing to reach them shouldn't
+// undo the decision
+async function notifySubmitter(
+  services: Pick<CommandContext, "client" | "store" | "messages">,
+  inboxId: string,
+  format: (t: Translate) => string
+) {
+  try {
+    const t = await getPlayerTranslator(services, inboxId);
+    await sendDirectMessage(services.client, inboxId, format(t));
+  } catch (error) {
+    logger.error(`Failed to notify a submitter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const approveCommand: Command = {
+  name: "approve",
+  usage: "/approve [group] [submission id]",
+  description: "Post a submission that's waiting for review (in your current group unless you name one)",
+  example: "/approve 4",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (original) => {
+    const target = await parseReviewTarget(original, approveCommand);
+    if (!target) {
+      return;
+    }
+    const { ctx, id } = target;
+    const { audit, group, senderInboxId, reply, t } = ctx;
+    const submission = await takeSubmission(ctx.store, id);
+    if (!submission) {
+      await reply(t("review.notFound", { id, group: group.name }));
+      return;
+    }
+
+    if (submission.kind === "confession" && submission.submitterAddress) {
+      const content = {
+        question: submission.text,
+        customHint: submission.customHint,
+        statements: submission.statements,
+        lieNumber: submission.lieNumber,
+      };
+      // Held rounds keep the game they were submitted for, even if the group has switched since
+      const saved = await publishConfession(ctx, getGameMode(submission.mode), content, {
+        inboxId: submission.submitterInboxId,
+        address: submission.submitterAddress,
+        name: submission.submitterName,
+      });
+      if (!saved) {
+        await reply(t("review.saveFailed", { id }));
+        return;
+      }
+      await notifySubmitter(ctx, submission.submitterInboxId, (dmT) =>
+        dmT("review.confessionApproved", { saved: formatConfessionSavedReply(saved, dmT) })
+      );
+    } else {
+      await relayAnonymousMessage(ctx, submission.submitterInboxId, submission.text);
+      await notifySubmitter(ctx, submission.submitterInboxId, (dmT) => dmT("review.shhApproved"));
+    }
+
+    await audit.record({ adminInboxId: senderInboxId, action: "approve", target: `#${id}`, details: submission.text });
+    await reply(t("review.approved", { id }));
+  },
+};
+
+export const rejectCommand: Command = {
+  name: "reject",
+  usage: "/reject [group] [submission id] [reason]",
+  description: "Turn down a submission that's waiting for review (in your current group unless you name one)",
+  example: "/reject 4 Please keep it friendly",
+  scope: "dm",
+  adminOnly: true,
+  handler: async (original) => {
+    const target = await parseReviewTarget(original, rejectCommand);
+    if (!target) {
+      return;
+    }
+    const { ctx, id, rest: reason } = target;
+    const { store, audit, group, senderInboxId, reply, t } = ctx;
+    const submission = await takeSubmission(store, id);
+    if (!submission) {
+      await reply(t("review.notFound", { id, group: group.name }));
+      return;
+    }
+
+    await notifySubmitter(
+      ctx,
+      submission.submitterInboxId,
+      (dmT) =>
+        dmT(submission.kind === "confession" ? "review.confessionRejected" : "review.shhRejected") +
+        (reason ? ` ${dmT("review.reason", { reason })}` : "")
+    );
+    await audit.record({ adminInboxId: senderInboxId, action: "reject", target: `#${id}`, details: reason || undefined });
+    await reply(t("review.rejected", { id }));
+  },
+};
@@ -0,0 +1,70 @@
+import { retractConfession } from "../game/confessions.js";
+import { getActiveConfessions, getQueuedConfessions } from "../game/rounds.js";
+import { isSameString } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+export const queueCommand: Command = {
+  name: "queue",
+  usage: "/queue",
+  description: "See how many confessions are waiting, and where yours is",
+  scope: "any",
+  handler: async ({ store, senderInboxId, isDm, reply, t }) => {
+    try {
+      const gameData = await store.read();
+      const queued = getQueuedConfessions(gameData);
+      let text = queued.length === 1 ? t("queue.countOne") : t("queue.count", { count: queued.length });
+
+      // Only show someone their own confessions in private; in the group it would give them away
+      if (isDm) {
+        const live = getActiveConfessions(gameData).filter((q) => isSameString(q.confessorInboxId, senderInboxId));
+        if (live.length > 0) {
+          text += `\n\n${t("queue.live", { ids: live.map((q) => `#${q.id}`).join(", ") })}`;
+        }
+        const own = queued
+          .map((confession, i) => ({ confession, position: i + 1 }))
+          .filter(({ confession }) => isSameString(confession.confessorInboxId, senderInboxId));
+        if (own.length > 0) {
+          const lines = own.map(({ confession, position }) =>
+            t("queue.yoursLine", { id: confession.id, position, question: confession.question })
+          );
+          text += `\n\n${t("queue.yours", { list: lines.join("\n") })}`;
+        }
+      }
+      await reply(text);
+    } catch (error) {
+      logger.error(`Failed to load queue: ${error}`);
+      await reply(t("queue.failed"));
+    }
+  },
+};
+
+export const retractCommand: Command = {
+  name: "retract",
+  usage: "/retract [confession id]",
+  description: "Withdraw your own confession before it goes live (your latest one if you leave out the id)",
+  scope: "dm",
+  anonymous: true,
+  handler: async ({ store, message, senderInboxId, args, reply, t }) => {
+    const id = args ? Number.parseInt(args.replace("#", ""), 10) : undefined;
+    if (id !== undefined && Number.isNaN(id)) {
+      await reply(t("retract.usage"));
+      return;
+    }
+
+    try {
+      const { retracted, repeated } = await retractConfession(store, senderInboxId, id, message.id);
+      if (repeated) {
+        return;
+      }
+      if (!retracted) {
+        await reply(t("retract.none"));
+        return;
+      }
+      await reply(t("retract.done", { question: retracted.question }));
+    } catch (error) {
+      logger.error(`Failed to retract confession: ${error}`);
+      await reply(t("retract.failed"));
+    }
+  },
+};
@@ -0,0 +1,171 @@
+import { findConfessionByMessageId } from "../game/reactions.js";
+import { getEditDistance } from "../helpers/utils.js";
+import { addLogContext, logger } from "../helpers/logger.js";
+import { metrics } from "../helpers/metrics.js";
+import { isAdmin } from "../offsite.js";
+import type { Command, CommandContext } from "./types.js";
+
+// How far off a typo can be and still be suggested
+const MAX_SUGGESTION_DISTANCE = 2;
+
+export type CommandRegistry = {
+  commands: Command[];
+  find: (name: string) => Command | undefined;
+};
+
+export function createCommandRegistry(commands: Command[]): CommandRegistry {
+  const byName = new Map<string, Command>();
+  for (const command of commands) {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      const key = name.toLowerCase();
+      if (byName.has(key)) {
+        throw new Error(`Duplicate command name: /${key}`);
+      }
+      byName.set(key, command);
+    }
+  }
+
+  return {
+    commands,
+    find: (name) => byName.get(name.toLowerCase()),
+  };
+}
+
+// Splits "/guess alice" into its command name and arguments. Only the first word counts
+// as the name, so "/guessing" is its own (unknown) command rather than "/guess".
+export function parseCommand(text: string): { name: string; args: string } | null {
+  const match = text.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? "").trim() };
+}
+
+// Splits a leading "#3" off command arguments, as in "/guess #3 alice"
+export function parseTargetId(args: string): { id?: number; rest: string } {
+  const match = args.match(/^#(\d+)(?:\s+([\s\S]*))?$/);
+  if (!match) return { rest: args };
+  return { id: Number(match[1]), rest: (match[2] ?? "").trim() };
+}
+
+// The confession a command is about: the #id in its arguments, or else the confession shown in
+// the message it replies to
+export async function parseCommandTarget({
+  store,
+  args,
+  replyToMessageId,
+}: Pick<CommandContext, "store" | "args" | "replyToMessageId">): Promise<{ id?: number; rest: string }> {
+  const parsed = parseTargetId(args);
+  if (parsed.id !== undefined || !replyToMessageId) {
+    return parsed;
+  }
+  const confession = findConfessionByMessageId(await store.read(), replyToMessageId);
+  return { id: confession?.id, rest: parsed.rest };
+}
+
+const isAvailable = (command: Command, isDm: boolean) =>
+  command.scope === "any" || command.scope === (isDm ? "dm" : "group");
+
+// Commands whose name looks like what the user typed
+export function suggestCommands(registry: CommandRegistry, name: string, isDm: boolean): Command[] {
+  return registry.commands.filter(
+    (command) =>
+      isAvailable(command, isDm) &&
+      !command.adminOnly &&
+      [command.name, ...(command.aliases ?? [])].some(
+        (candidate) =>
+          name.startsWith(candidate) ||
+          candidate.startsWith(name) ||
+          getEditDistance(name, candidate) <= MAX_SUGGESTION_DISTANCE
+      )
+  );
+}
+
+export function formatUsage(command: Command, { messages, locale }: Pick<CommandContext, "messages" | "locale">) {
+  const t = messages.translator(locale);
+  const { usage, description, example } = messages.describeCommand(locale, command);
+  let text = t("usage.format", { description, usage });
+  if (example) {
+    text += `\n\n${t("usage.example", { example })}`;
+  }
+  return text;
+}
+
+export function formatHelp(
+  registry: CommandRegistry,
+  { messages, locale, isDm }: Pick<CommandContext, "messages" | "locale" | "isDm">,
+  includeAdmin: boolean = false
+) {
+  const t = messages.translator(locale);
+  const lines = registry.commands
+    .filter((command) => isAvailable(command, isDm) && (includeAdmin || !command.adminOnly))
+    .map((command) => {
+      const { usage, description } = messages.describeCommand(locale, command);
+      const aliases = command.aliases?.length
+        ? ` ${t("help.aliases", { aliases: command.aliases.map((alias) => `/${alias}`).join(", ") })}`
+        : "";
+      return `${usage}${aliases}\n   ${description}`;
+    });
+  return `${t("help.title")}\n\n${lines.join("\n\n")}`;
+}
+
+// The welcome text sent to new players in a DM
+export function formatInstructions(registry: CommandRegistry, { messages, locale }: Pick<CommandContext, "messages" | "locale">) {
+  const t = messages.translator(locale);
+  const steps = registry.commands
+    .filter((command) => command.example && !command.adminOnly && isAvailable(command, true))
+    .map((command, i) => {
+      const { usage, description, example = "" } = messages.describeCommand(locale, command);
+      return t("welcome.step", { number: i + 1, description, usage, example });
+    });
+  return `${t("welcome.intro")}\n\n${steps.join("\n\n")}\n\n${t("welcome.outro")}`;
+}
+
+// Runs the command in `text`, if any. Returns false when the message isn't a command
+// so the caller can fall back to its default handling.
+export async function dispatchCommand(
+  registry: CommandRegistry,
+  text: string,
+  ctx: Omit<CommandContext, "args" | "registry">
+): Promise<boolean> {
+  const parsed = parseCommand(text);
+  if (!parsed) return false;
+
+  const command = registry.find(parsed.name);
+  if (!command) {
+    const suggestions = suggestCommands(registry, parsed.name, ctx.isDm);
+    if (suggestions.length > 0) {
+      await ctx.reply(
+        ctx.t("command.suggest", {
+          name: parsed.name,
+          suggestions: suggestions.map((s) => `/${s.name}`).join(` ${ctx.t("command.or")} `),
+        })
+      );
+    } else if (ctx.isDm) {
+      // Stay quiet in the group so unrelated slash-messages don't get a reply
+      await ctx.reply(ctx.t("command.unknown", { name: parsed.name }));
+    }
+    return true;
+  }
+
+  if (!isAvailable(command, ctx.isDm)) {
+    await ctx.reply(ctx.t(command.scope === "dm" ? "command.dmOnly" : "command.groupOnly", { name: command.name }));
+    return true;
+  }
+
+  if (command.adminOnly && !(await isAdmin(ctx.client, ctx.group, ctx.adminAddresses, ctx.senderInboxId))) {
+    logger.warn(`Non-admin ${ctx.senderInboxId} tried /${command.name}`);
+    await ctx.reply(ctx.t("command.adminOnly", { name: command.name }));
+    return true;
+  }
+
+  // Anyone who can read the logs could otherwise tell who confessed. A DM's conversation ID
+  // points at the sender as well.
+  addLogContext(
+    command.anonymous
+      ? { command: command.name, sender: undefined, conversationId: undefined }
+      : { command: command.name }
+  );
+  metrics.commands.inc({ command: command.name });
+  logger.info(`Handling /${command.name}`);
+  await command.handler({ ...ctx, args: parsed.args, registry });
+  return true;
+}
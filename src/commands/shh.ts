@@ -0,0 +1,65 @@
+import { findContentViolation, formatReviewRequest, queueSubmission } from "../game/moderation.js";
+import { getOrCreatePseudonym } from "../game/pseudonyms.js";
+import { claimMessageAction } from "../game/replays.js";
+import { logger } from "../helpers/logger.js";
+import { notifyAdmins } from "../offsite.js";
+import type { Command, CommandContext } from "./types.js";
+
+// Posts the message under the sender's pseudonym for this session. Returns the pseudonym.
+export async function relayAnonymousMessage(
+  ctx: Pick<CommandContext, "group" | "messages" | "store" | "sealer" | "shh" | "now">,
+  senderInboxId: string,
+  text: string
+) {
+  const pseudonym = await getOrCreatePseudonym(ctx, senderInboxId, ctx.now());
+  await ctx.group.send(ctx.messages.translator()("shh.relay", { name: pseudonym.name, text }));
+  return pseudonym.name;
+}
+
+export const shhCommand: Command = {
+  name: "shh",
+  usage: "/shh [message]",
+  description: "Send an anonymous message to the group under a pseudonym others can /whisper to",
+  example: "/shh who brought the donuts?",
+  scope: "dm",
+  anonymous: true,
+  handler: async (ctx) => {
+    const { client, group, games, store, moderation, messages, message, adminAddresses, senderInboxId, args, reply, t } = ctx;
+    if (!args) {
+      await reply(t("shh.empty"));
+      return;
+    }
+
+    const violation = findContentViolation(args, moderation);
+    if (violation) {
+      await reply(t("shh.blocked", { reason: t(violation) }));
+      return;
+    }
+
+    try {
+      if (moderation.reviewMode) {
+        const queued = await queueSubmission(store, {
+          kind: "shh",
+          text: args,
+          submitterInboxId: senderInboxId,
+          sourceMessageId: message.id,
+        });
+        const game = games.length > 1 ? games.find((g) => g.group.id === group.id) : undefined;
+        const request = formatReviewRequest(queued, messages.translator(), { name: group.name, id: game?.id });
+        await notifyAdmins(client, group, adminAddresses, request);
+        await reply(t("shh.awaitingReview"));
+        return;
+      }
+
+      if (!(await claimMessageAction(store, message.id))) {
+        return;
+      }
+      const name = await relayAnonymousMessage(ctx, senderInboxId, args);
+      await reply(t("shh.relayed", { name }));
+      logger.info("Anonymous message relayed to the group", { kind: "relay" });
+    } catch (error) {
+      logger.error(`Failed to relay message: ${error}`);
+      await reply(t("shh.failed"));
+    }
+  },
+};
@@ -0,0 +1,29 @@
+import { formatSpiciest, getSpiciestConfessions } from "../game/reactions.js";
+import { DEFAULT_LEADERBOARD_SIZE } from "../game/scoring.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+// Upper bound for "/spiciest N" so one reply doesn't flood the chat
+const MAX_SPICIEST_SIZE = 10;
+
+export const spiciestCommand: Command = {
+  name: "spiciest",
+  aliases: ["spicy"],
+  usage: "/spiciest [count]",
+  description: "Show the confessions with the most 🌶️ reactions",
+  scope: "any",
+  handler: async ({ store, args, reply, t }) => {
+    const requested = args ? Number.parseInt(args, 10) : DEFAULT_LEADERBOARD_SIZE;
+    const size = Number.isNaN(requested)
+      ? DEFAULT_LEADERBOARD_SIZE
+      : Math.min(Math.max(requested, 1), MAX_SPICIEST_SIZE);
+
+    try {
+      const gameData = await store.read();
+      await reply(formatSpiciest(getSpiciestConfessions(gameData, size), t));
+    } catch (error) {
+      logger.error(`Failed to load spiciest confessions: ${error}`);
+      await reply(t("spiciest.failed"));
+    }
+  },
+};
@@ -0,0 +1,34 @@
+import { getConfessionRecord, createPlayerStats, findPlayer, formatStats, getLeaderboard } from "../game/scoring.js";
+import { isSameString } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { Command } from "./types.js";
+
+export const statsCommand: Command = {
+  name: "stats",
+  usage: "/stats [@name]",
+  description: "Show your own record, or another player's",
+  scope: "any",
+  handler: async ({ store, senderInboxId, args, reply, t }) => {
+    try {
+      const gameData = await store.read();
+      const record = getConfessionRecord(gameData, senderInboxId);
+      const player = args
+        ? findPlayer(gameData, args)
+        : gameData.players[senderInboxId] ?? (record.confessions > 0 ? createPlayerStats(senderInboxId) : undefined);
+
+      if (!player) {
+        await reply(args ? t("stats.unknownPlayer", { name: args }) : t("stats.none"));
+        return;
+      }
+
+      const ranked = getLeaderboard(gameData, Object.keys(gameData.players).length);
+      const rank = ranked.findIndex((p) => p.inboxId === player.inboxId) + 1;
+      // Anyone can look anyone up, so only the player themselves sees how much they confessed
+      const own = isSameString(player.inboxId, senderInboxId);
+      await reply(formatStats(player, rank || undefined, t, own ? record : undefined));
+    } catch (error) {
+      logger.error(`Failed to load stats: ${error}`);
+      await reply(t("stats.failed"));
+    }
+  },
+};
@@ -0,0 +1,16 @@
+import { twoTruthsMode } from "../game/modes/index.js";
+import { submitRound } from "./confess.js";
+import type { Command } from "./types.js";
+
+export const truthsCommand: Command = {
+  name: "truths",
+  aliases: ["twotruths"],
+  usage: "/truths [statement] | [statement] | [statement] lie: [1, 2 or 3]",
+  description: "Play Two Truths and a Lie: share three statements about yourself, one of them false",
+  example: "/truths I have a twin | I've been to Japan | I hate coffee lie: 3",
+  scope: "dm",
+  anonymous: true,
+  handler: async (ctx) => {
+    await submitRound(ctx, twoTruthsMode, truthsCommand);
+  },
+};
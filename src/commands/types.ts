@@ -0,0 +1,79 @@
+import type { GameEvents } from "../game/events.js";
+import type { ModerationConfig } from "../game/moderation.js";
+import type { ShhConfig } from "../game/pseudonyms.js";
+import type { RoundConfig } from "../game/rounds.js";
+import type { GuessRules } from "../game/rules.js";
+import type { GroupGame } from "../groups.js";
+import type { AuditLog } from "../helpers/audit.js";
+import type { BotClient, BotConversation, BotGroup, BotMessage } from "../helpers/client.js";
+import type { NameResolver } from "../helpers/names.js";
+import type { Sealer } from "../helpers/sealer.js";
+import type { Messages, Translate } from "../messages/index.js";
+import type { GameStore } from "../store/index.js";
+import type { CommandRegistry } from "./registry.js";
+
+// Where a command may be used: in a DM with the bot, in the confession group, or both
+export type CommandScope = "dm" | "group" | "any";
+
+// Long-lived dependencies shared by every command
+export type BotServices = {
+  store: GameStore;
+  names: NameResolver;
+  rules: GuessRules;
+  rounds: RoundConfig;
+  moderation: ModerationConfig;
+  shh: ShhConfig;
+  adminAddresses: string[];
+  // Addresses allowed in the group, in lowercase. Anyone can join when unset.
+  allowlist?: ReadonlySet<string>;
+  audit: AuditLog;
+  // Keeps who is behind each /shh pseudonym unreadable in the stored game state
+  sealer: Sealer;
+  // Live feed of what happens in the game, e.g. for the dashboard
+  events: GameEvents;
+  // Everything the bot says, in every available language
+  messages: Messages;
+  // Current time for game rules and deadlines; a fake clock can be swapped in for offline runs
+  now: () => Date;
+};
+
+// Services are those of the group the command is about: the group chat it was sent in, or for a
+// DM the group the sender picked with /join
+export type CommandContext = BotServices & {
+  client: BotClient;
+  group: BotGroup;
+  // Every group the bot runs, the first being where DMs go by default
+  games: GroupGame[];
+  registry: CommandRegistry;
+  message: BotMessage;
+  conversation: BotConversation;
+  senderInboxId: string;
+  // Everything after the command name, trimmed
+  args: string;
+  isDm: boolean;
+  // The sender's language in a DM, the group's in the group chat
+  locale: string;
+  // Formats a message in `locale`, for replies
+  t: Translate;
+  // Sends a message back to the conversation the command came from
+  reply: (text: string) => Promise<void>;
+  // Reacts to the command's message with an emoji
+  react: (emoji: string) => Promise<void>;
+  // Set when the command was sent as a reply: the ID of the message it answers
+  replyToMessageId?: string;
+};
+
+export type Command = {
+  name: string;
+  aliases?: string[];
+  // Shown in /help and in usage replies, e.g. "/guess [username]"
+  usage: string;
+  description: string;
+  example?: string;
+  scope: CommandScope;
+  // Restricted to group super admins and configured admin addresses
+  adminOnly?: boolean;
+  // Sent by someone who should stay anonymous, e.g. a confessor, so who sent it isn't logged
+  anonymous?: boolean;
+  handler: (ctx: CommandContext) => Promise<void>;
+};
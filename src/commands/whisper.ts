@@ -0,0 +1,59 @@
+import { getPlayerTranslator } from "../game/languages.js";
+import { findContentViolation } from "../game/moderation.js";
+import { findPseudonymOwner, parsePseudonym } from "../game/pseudonyms.js";
+import { claimMessageAction } from "../game/replays.js";
+import { formatPlayerName } from "../game/scoring.js";
+import { getAddressFromXMTPIdentity, sendDirectMessage } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import { formatUsage } from "./registry.js";
+import type { Command } from "./types.js";
+
+export const whisperCommand: Command = {
+  name: "whisper",
+  aliases: ["w"],
+  usage: "/whisper [pseudonym] [message]",
+  description: "Answer an anonymous /shh sender privately; they see your name but you never see theirs",
+  example: "/whisper Anon Pepper #3 I think I know who you are",
+  scope: "any",
+  handler: async (ctx) => {
+    const { client, store, names, moderation, message, now, senderInboxId, args, reply, t } = ctx;
+    const parsed = parsePseudonym(args);
+    if (!parsed || !parsed.rest) {
+      await reply(formatUsage(whisperCommand, ctx));
+      return;
+    }
+
+    const violation = findContentViolation(parsed.rest, moderation);
+    if (violation) {
+      await reply(t("whisper.blocked", { reason: t(violation) }));
+      return;
+    }
+
+    try {
+      const owner = await findPseudonymOwner(ctx, parsed, now());
+      if (!owner) {
+        await reply(t("whisper.unknown", { name: parsed.word ? `${parsed.word} #${parsed.number}` : `#${parsed.number}` }));
+        return;
+      }
+      if (!(await claimMessageAction(store, message.id))) {
+        return;
+      }
+      const address = await getAddressFromXMTPIdentity(client, senderInboxId);
+      const from = formatPlayerName({
+        inboxId: senderInboxId,
+        address,
+        name: address ? await names.resolveName(address) : undefined,
+      });
+      const ownerT = await getPlayerTranslator(ctx, owner.inboxId);
+      await sendDirectMessage(
+        client,
+        owner.inboxId,
+        ownerT("whisper.received", { from, name: owner.pseudonym.name, text: parsed.rest })
+      );
+      await reply(t("whisper.sent", { name: owner.pseudonym.name }));
+    } catch (error) {
+      logger.error(`Failed to deliver whisper: ${error}`);
+      await reply(t("whisper.failed"));
+    }
+  },
+};
@@ -0,0 +1,349 @@
+import fs from "fs/promises";
+import { DEFAULT_MEMBERSHIP_CONFIG, getMembershipConfigFromEnv, type MembershipConfig } from "./game/membership.js";
+import { DEFAULT_MODERATION_CONFIG, getModerationConfigFromEnv, type ModerationConfig } from "./game/moderation.js";
+import { DEFAULT_SHH_CONFIG, getShhConfigFromEnv, type ShhConfig } from "./game/pseudonyms.js";
+import { DEFAULT_ROUND_CONFIG, getRoundConfigFromEnv, type RoundConfig } from "./game/rounds.js";
+import { DEFAULT_GUESS_RULES, getGuessRulesFromEnv, type GuessRules } from "./game/rules.js";
+import { isEthereumAddress } from "./helpers/utils.js";
+import { logger } from "./helpers/logger.js";
+import { DEFAULT_LOCALE, isMessageKey, type LocaleBundle } from "./messages/index.js";
+import { DEFAULT_GROUP_PERMISSIONS, getAdminAddresses, type GroupPermissionsConfig } from "./offsite.js";
+import { DEFAULT_STREAM_BACKOFF, type StreamBackoff } from "./stream.js";
+
+// The group a single-group setup runs. Its game state keeps the file names from before there
+// could be several groups.
+export const MAIN_GROUP_ID = "main";
+
+// Settings for one confession group
+export type GroupConfig = {
+  // Short name players use with /join, e.g. "defi"
+  id: string;
+  // `locale` is the language of group broadcasts, and of DMs for players who haven't chosen one.
+  // The name, description and permissions are used when the bot creates the group chat.
+  group: { name: string; description: string; locale: string; permissions: GroupPermissionsConfig };
+  adminAddresses: string[];
+  rules: GuessRules;
+  rounds: RoundConfig;
+  moderation: ModerationConfig;
+  shh: ShhConfig;
+  membership: MembershipConfig;
+  // Reworded messages by locale, on top of the bundled ones
+  messages: Record<string, LocaleBundle>;
+};
+
+// Everything that changes from one event to the next
+export type BotConfig = {
+  // The first group is where DMs go until a player picks one with /join
+  groups: GroupConfig[];
+  streamBackoff: StreamBackoff;
+};
+
+const DEFAULT_GROUP_CONFIG: GroupConfig = {
+  id: MAIN_GROUP_ID,
+  group: {
+    name: "🌶️🌶️ GUESS 🌶️🌶️",
+    description: "Anonymous confessions for Base Summit 2025",
+    locale: DEFAULT_LOCALE,
+    permissions: DEFAULT_GROUP_PERMISSIONS,
+  },
+  adminAddresses: ["0x80245b9C0d2Ef322F2554922cA86Cf211a24047F"],
+  rules: DEFAULT_GUESS_RULES,
+  rounds: DEFAULT_ROUND_CONFIG,
+  moderation: DEFAULT_MODERATION_CONFIG,
+  shh: DEFAULT_SHH_CONFIG,
+  membership: DEFAULT_MEMBERSHIP_CONFIG,
+  messages: {},
+};
+
+export const DEFAULT_CONFIG: BotConfig = {
+  groups: [DEFAULT_GROUP_CONFIG],
+  streamBackoff: DEFAULT_STREAM_BACKOFF,
+};
+
+// Settings that can differ between groups
+type GroupFile = {
+  group?: { name?: string; description?: string; locale?: string; permissions?: Partial<GroupPermissionsConfig> };
+  adminAddresses?: string[];
+  guesses?: {
+    maxWrong?: number;
+    attemptsPerPlayer?: number;
+    cooldownSeconds?: number;
+    hintAfterWrongGuesses?: number[];
+    countNearMisses?: boolean;
+  };
+  rounds?: {
+    durationMinutes?: number;
+    reminderMinutes?: number;
+    timeoutAction?: "expire" | "reveal";
+    maxOpenConfessions?: number;
+  };
+  moderation?: { review?: boolean; blockedWords?: string[] };
+  shh?: { sessionMinutes?: number; revealToAdmins?: boolean };
+  membership?: { allowlistPath?: string };
+  messages?: Record<string, LocaleBundle>;
+};
+
+// The config file uses the same units as the environment variables (seconds, minutes). Settings
+// at the top level apply to every group in `groups` unless the group sets its own.
+type ConfigFile = GroupFile & {
+  stream?: { retryInitialSeconds?: number; retryMaxSeconds?: number };
+  groups?: (GroupFile & { id: string })[];
+};
+
+// Returns what's wrong with a value, or undefined if it's fine
+type Check = (value: unknown) => string | undefined;
+type Schema = { [key: string]: Check | Schema };
+
+const text: Check = (value) => (typeof value === "string" && value.trim() ? undefined : "expected a non-empty string");
+const bool: Check = (value) => (typeof value === "boolean" ? undefined : "expected true or false");
+const wholeNumber = (min: number): Check => (value) =>
+  Number.isInteger(value) && (value as number) >= min ? undefined : `expected a whole number of ${min} or more`;
+const number = (min: number): Check => (value) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min ? undefined : `expected a number of ${min} or more`;
+const positiveNumber: Check = (value) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? undefined : "expected a number above 0";
+const oneOf = (...options: string[]): Check => (value) =>
+  options.includes(value as string) ? undefined : `expected one of: ${options.join(", ")}`;
+const listOf = (check: Check, what: string): Check => (value) =>
+  Array.isArray(value) && value.every((item) => !check(item)) ? undefined : `expected a list of ${what}`;
+const policy = oneOf("everyone", "admins", "superAdmins");
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+// Message templates by locale and key, e.g. { "en": { "shh.relayed": "Sent!" } }
+const messageOverrides: Check = (value) => {
+  if (!isObject(value)) return "expected an object of locales";
+  const problems: string[] = [];
+  for (const [locale, templates] of Object.entries(value)) {
+    if (!isObject(templates)) {
+      problems.push(`${locale}: expected an object of messages`);
+      continue;
+    }
+    for (const [key, template] of Object.entries(templates)) {
+      if (!isMessageKey(key)) problems.push(`${locale}.${key}: unknown message`);
+      else if (typeof template !== "string") problems.push(`${locale}.${key}: expected a string`);
+    }
+  }
+  return problems.length > 0 ? problems.join("; ") : undefined;
+};
+
+const GROUP_SCHEMA: Schema = {
+  group: {
+    name: text,
+    description: text,
+    locale: text,
+    permissions: { addMembers: policy, removeMembers: policy, updateMetadata: policy },
+  },
+  adminAddresses: listOf((value) => (typeof value === "string" && isEthereumAddress(value) ? undefined : "bad"), "Ethereum addresses"),
+  guesses: {
+    maxWrong: wholeNumber(1),
+    attemptsPerPlayer: wholeNumber(1),
+    cooldownSeconds: wholeNumber(0),
+    hintAfterWrongGuesses: listOf(wholeNumber(1), "whole numbers of 1 or more"),
+    countNearMisses: bool,
+  },
+  rounds: {
+    durationMinutes: number(0),
+    reminderMinutes: number(0),
+    timeoutAction: oneOf("expire", "reveal"),
+    maxOpenConfessions: wholeNumber(1),
+  },
+  moderation: { review: bool, blockedWords: listOf(text, "words") },
+  shh: { sessionMinutes: number(1), revealToAdmins: bool },
+  membership: { allowlistPath: text },
+  messages: messageOverrides,
+};
+
+const groupId: Check = (value) =>
+  typeof value === "string" && /^[a-z0-9-]+$/.test(value) ? undefined : "expected lowercase letters, digits and dashes";
+
+// Each group is checked like the top level, plus its id
+const groupList: Check = (value) => {
+  if (!Array.isArray(value) || value.length === 0) return "expected a list of groups";
+  const problems: string[] = [];
+  value.forEach((entry, i) => {
+    validateConfig(entry, { ...GROUP_SCHEMA, id: groupId }, `[${i}]`, problems);
+    if (isObject(entry) && entry.id === undefined) problems.push(`[${i}].id: missing`);
+  });
+  const ids = value.map((entry) => (isObject(entry) ? entry.id : undefined)).filter(Boolean);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) problems.push(`"${duplicate}" is used by more than one group`);
+  return problems.length > 0 ? problems.join("; ") : undefined;
+};
+
+const CONFIG_SCHEMA: Schema = {
+  ...GROUP_SCHEMA,
+  // A zero delay would reconnect a broken stream in a tight loop
+  stream: { retryInitialSeconds: positiveNumber, retryMaxSeconds: positiveNumber },
+  groups: groupList,
+};
+
+// Collects every problem in the file, with its path, so they can all be fixed in one go
+function validateConfig(value: unknown, schema: Schema, path: string, problems: string[]) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    problems.push(`${path || "config"}: expected an object`);
+    return;
+  }
+  for (const [key, field] of Object.entries(value)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const check = schema[key];
+    if (!check) {
+      problems.push(`${fieldPath}: unknown setting. Expected one of: ${Object.keys(schema).join(", ")}`);
+    } else if (typeof check === "function") {
+      const problem = check(field);
+      if (problem) problems.push(`${fieldPath}: ${problem}`);
+    } else {
+      validateConfig(field, check, fieldPath, problems);
+    }
+  }
+}
+
+const minutes = (value: number | undefined, fallbackMs: number) => (value === undefined ? fallbackMs : value * 60_000);
+const seconds = (value: number | undefined, fallbackMs: number) => (value === undefined ? fallbackMs : value * 1000);
+
+// Helper to lay a group's settings over the top-level ones, one section at a time
+const mergeGroupFile = (base: GroupFile, group: GroupFile): GroupFile => {
+  const messages = { ...base.messages };
+  for (const [locale, templates] of Object.entries(group.messages ?? {})) {
+    messages[locale] = { ...messages[locale], ...templates };
+  }
+  return {
+    group: {
+      ...base.group,
+      ...group.group,
+      permissions: { ...base.group?.permissions, ...group.group?.permissions },
+    },
+    adminAddresses: group.adminAddresses ?? base.adminAddresses,
+    guesses: { ...base.guesses, ...group.guesses },
+    rounds: { ...base.rounds, ...group.rounds },
+    moderation: { ...base.moderation, ...group.moderation },
+    shh: { ...base.shh, ...group.shh },
+    membership: { ...base.membership, ...group.membership },
+    messages,
+  };
+};
+
+// Helper to lay one group's settings over the defaults
+function applyGroupFile(id: string, file: GroupFile): GroupConfig {
+  const { group, adminAddresses, guesses = {}, rounds = {}, moderation = {}, shh = {}, membership = {}, messages = {} } = file;
+  return {
+    id,
+    group: {
+      ...DEFAULT_GROUP_CONFIG.group,
+      ...group,
+      permissions: { ...DEFAULT_GROUP_CONFIG.group.permissions, ...group?.permissions },
+    },
+    adminAddresses: adminAddresses ?? DEFAULT_GROUP_CONFIG.adminAddresses,
+    rules: {
+      maxIncorrectGuesses: guesses.maxWrong ?? DEFAULT_GUESS_RULES.maxIncorrectGuesses,
+      attemptsPerPlayer: guesses.attemptsPerPlayer ?? DEFAULT_GUESS_RULES.attemptsPerPlayer,
+      cooldownMs: seconds(guesses.cooldownSeconds, DEFAULT_GUESS_RULES.cooldownMs),
+      hintThresholds: [...(guesses.hintAfterWrongGuesses ?? DEFAULT_GUESS_RULES.hintThresholds)].sort((a, b) => a - b),
+      countNearMisses: guesses.countNearMisses ?? DEFAULT_GUESS_RULES.countNearMisses,
+    },
+    rounds: {
+      durationMs: minutes(rounds.durationMinutes, DEFAULT_ROUND_CONFIG.durationMs),
+      reminderMs: minutes(rounds.reminderMinutes, DEFAULT_ROUND_CONFIG.reminderMs),
+      timeoutAction: rounds.timeoutAction ?? DEFAULT_ROUND_CONFIG.timeoutAction,
+      maxOpen: rounds.maxOpenConfessions ?? DEFAULT_ROUND_CONFIG.maxOpen,
+    },
+    moderation: {
+      reviewMode: moderation.review ?? DEFAULT_MODERATION_CONFIG.reviewMode,
+      blockedWords: (moderation.blockedWords ?? DEFAULT_MODERATION_CONFIG.blockedWords).map((word) => word.toLowerCase()),
+    },
+    shh: {
+      sessionMs: minutes(shh.sessionMinutes, DEFAULT_SHH_CONFIG.sessionMs),
+      revealToAdmins: shh.revealToAdmins ?? DEFAULT_SHH_CONFIG.revealToAdmins,
+    },
+    membership: { allowlistPath: membership.allowlistPath ?? DEFAULT_MEMBERSHIP_CONFIG.allowlistPath },
+    messages,
+  };
+}
+
+// Helper to lay the file's settings over the defaults
+function applyConfigFile(file: ConfigFile): BotConfig {
+  const { stream = {}, groups, ...topLevel } = file;
+  return {
+    groups: groups
+      ? groups.map(({ id, ...group }) => applyGroupFile(id, mergeGroupFile(topLevel, group)))
+      : [applyGroupFile(MAIN_GROUP_ID, topLevel)],
+    streamBackoff: {
+      initialMs: seconds(stream.retryInitialSeconds, DEFAULT_STREAM_BACKOFF.initialMs),
+      maxMs: seconds(stream.retryMaxSeconds, DEFAULT_STREAM_BACKOFF.maxMs),
+    },
+  };
+}
+
+// Each group needs its own chat, and the chats are found by name
+function checkGroupNames(groups: GroupConfig[]) {
+  const names = groups.map((group) => group.group.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`More than one group is named "${duplicate}". Give each group its own group.name`);
+  }
+}
+
+// The delays double from the first up to the longest, so the longest can't be shorter
+function checkStreamBackoff({ initialMs, maxMs }: StreamBackoff) {
+  if (maxMs < initialMs) {
+    throw new Error(
+      `stream.retryMaxSeconds (${maxMs / 1000}) is less than stream.retryInitialSeconds (${initialMs / 1000}). Set it to at least the first delay`
+    );
+  }
+}
+
+// Reads the config file at CONFIG_PATH (or ./config.json if there is one), checks it and
+// applies environment variable overrides on top. Without a file, the defaults are used.
+// GROUP_NAME, GROUP_DESCRIPTION and GROUP_LOCALE only apply when the bot runs just the main
+// group; the other variables apply to every group.
+export async function loadConfig(path: string | undefined = process.env.CONFIG_PATH): Promise<BotConfig> {
+  const filePath = path ?? "config.json";
+  let raw: string | undefined;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    // Only a missing default file is fine; a missing CONFIG_PATH is a mistake
+    if (path !== undefined || (error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Could not read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  let fromFile = DEFAULT_CONFIG;
+  if (raw !== undefined) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const problems: string[] = [];
+    validateConfig(parsed, CONFIG_SCHEMA, "", problems);
+    if (problems.length > 0) {
+      throw new Error(`Invalid config file ${filePath}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    }
+    fromFile = applyConfigFile(parsed as ConfigFile);
+    logger.info(`Using config file ${filePath}`);
+  }
+
+  const isSingleGroup = fromFile.groups.length === 1 && fromFile.groups[0].id === MAIN_GROUP_ID;
+  const groups = fromFile.groups.map((group) => ({
+    ...group,
+    group: isSingleGroup
+      ? {
+          ...group.group,
+          name: process.env.GROUP_NAME || group.group.name,
+          description: process.env.GROUP_DESCRIPTION || group.group.description,
+          locale: process.env.GROUP_LOCALE || group.group.locale,
+        }
+      : group.group,
+    adminAddresses: getAdminAddresses(group.adminAddresses),
+    rules: getGuessRulesFromEnv(group.rules),
+    rounds: getRoundConfigFromEnv(group.rounds),
+    moderation: getModerationConfigFromEnv(group.moderation),
+    shh: getShhConfigFromEnv(group.shh),
+    membership: getMembershipConfigFromEnv(group.membership),
+  }));
+  checkGroupNames(groups);
+  checkStreamBackoff(fromFile.streamBackoff);
+
+  return { groups, streamBackoff: fromFile.streamBackoff };
+}
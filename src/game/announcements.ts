@@ -0,0 +1,56 @@
+import type { BotClient, BotGroup } from "../helpers/client.js";
+import { sendDirectMessage } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { MessageKey, Messages, MessageVars } from "../messages/index.js";
+import type { Confession, GameStore } from "../store/index.js";
+import type { GameEvents } from "./events.js";
+import { getPlayerTranslator } from "./languages.js";
+import { getGameMode } from "./modes/index.js";
+import { recordConfessionMessage } from "./reactions.js";
+import { getRoundMode } from "./rounds.js";
+import { formatPlayerName } from "./scoring.js";
+
+type NotifyServices = { client: BotClient; store: GameStore; messages: Messages };
+
+// Tells a confessor what happened to their confession, in their language. The message gets the
+// confession's {id} and {question}. A failed DM shouldn't hold up the round.
+export async function notifyConfessor(
+  services: NotifyServices,
+  confession: Confession,
+  key: MessageKey,
+  vars: MessageVars = {}
+) {
+  try {
+    const t = await getPlayerTranslator(services, confession.confessorInboxId);
+    await sendDirectMessage(
+      services.client,
+      confession.confessorInboxId,
+      t(key, { id: confession.id, question: confession.question, ...vars })
+    );
+  } catch (error) {
+    logger.error(`Failed to notify confessor of #${confession.id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Announces the round that's now up for guessing, if any, and lets its submitter know
+export async function announceNextConfession(
+  services: NotifyServices & { group: BotGroup; events: GameEvents },
+  next?: Confession
+) {
+  if (next) {
+    const mode = getGameMode(getRoundMode(next));
+    const announcement = mode.formatRoundStart(next, true);
+    services.events.emit({ type: "confession", id: next.id, question: next.question });
+    const messageId = await services.group.send(services.messages.translator()(announcement.key, announcement.vars));
+    await recordConfessionMessage(services.store, next.id, messageId);
+    await notifyConfessor(services, next, mode.liveNoticeKey);
+  }
+}
+
+export function formatConfessor(confession: Confession) {
+  return formatPlayerName({
+    inboxId: confession.confessorInboxId,
+    address: confession.confessorAddress,
+    name: confession.answer,
+  });
+}
@@ -0,0 +1,27 @@
+import { isSameString } from "../helpers/utils.js";
+import type { GameStore } from "../store/index.js";
+
+export async function isBanned(store: GameStore, inboxId: string) {
+  const gameData = await store.read();
+  return gameData.bannedInboxIds.some((banned) => isSameString(banned, inboxId));
+}
+
+// Returns false if the inbox was already banned
+export async function banInbox(store: GameStore, inboxId: string) {
+  return store.update((gameData) => {
+    if (gameData.bannedInboxIds.some((banned) => isSameString(banned, inboxId))) {
+      return false;
+    }
+    gameData.bannedInboxIds.push(inboxId);
+    return true;
+  });
+}
+
+// Returns false if the inbox wasn't banned
+export async function unbanInbox(store: GameStore, inboxId: string) {
+  return store.update((gameData) => {
+    const before = gameData.bannedInboxIds.length;
+    gameData.bannedInboxIds = gameData.bannedInboxIds.filter((banned) => !isSameString(banned, inboxId));
+    return gameData.bannedInboxIds.length < before;
+  });
+}
@@ -0,0 +1,300 @@
+import { isSameString } from "../helpers/utils.js";
+import { logger } from "../helpers/logger.js";
+import type { Message } from "../messages/index.js";
+import type { Confession, GameModeId, GameStore, PlayerStats } from "../store/index.js";
+import {
+  activateNextConfession,
+  endRound,
+  getActiveConfession,
+  getActiveConfessions,
+  getQueuePosition,
+  getQueuedConfessions,
+  getRoundMode,
+  type RoundConfig,
+} from "./rounds.js";
+import { recordMessageAction } from "./replays.js";
+import { getGameMode, type GuessOutcome, type RoundContent, type RoundEnd } from "./modes/index.js";
+import type { GuessRules } from "./rules.js";
+import { getLeaderboard, type PlayerIdentity } from "./scoring.js";
+
+// Helper function to check if there's an active game
+export async function hasActiveGame(store: GameStore): Promise<boolean> {
+  try {
+    const gameData = await store.read();
+    
+    return !!getActiveConfession(gameData);
+  } catch (error) {
+    logger.error(`Failed to check active game: ${error}`);
+    return false;
+  }
+}
+
+// Helper function to save a round of the given game to the game store. It goes live right away
+// if nothing else is being guessed, otherwise it waits in the queue. Returns the saved
+// round and its place in line (0 when it went live), or undefined if saving failed.
+export async function saveConfession(
+  store: GameStore,
+  mode: GameModeId,
+  { question, customHint, statements, lieNumber }: RoundContent,
+  confessor: PlayerIdentity & { address: string },
+  rounds: RoundConfig,
+  now: Date = new Date(),
+  // The message that saved it; saving again for the same message returns the round already saved
+  sourceMessageId?: string
+): Promise<{ confession: Confession; queuePosition: number; repeated?: boolean } | undefined> {
+  try {
+    return await store.update((gameData) => {
+      const existing = sourceMessageId && gameData.questions.find((q) => q.sourceMessageId === sourceMessageId);
+      if (existing) {
+        return { confession: existing, queuePosition: getQueuePosition(gameData, existing), repeated: true };
+      }
+      const saved: Confession = {
+        id: gameData.nextConfessionId++,
+        // Confessions predate modes, so they're stored without one as before
+        mode: mode === "confessions" ? undefined : mode,
+        question,
+        answer: confessor.name,
+        confessorInboxId: confessor.inboxId,
+        confessorAddress: confessor.address,
+        status: "queued",
+        incorrectGuesses: 0,
+        guesses: [],
+        customHint,
+        hintsRevealed: 0,
+        statements,
+        lieNumber,
+        sourceMessageId,
+        timestamp: now.toISOString()
+      };
+      gameData.questions.push(saved);
+      activateNextConfession(gameData, rounds, now);
+      return { confession: saved, queuePosition: getQueuePosition(gameData, saved) };
+    });
+  } catch (error) {
+    logger.error(`Failed to save confession: ${error}`);
+    return undefined;
+  }
+}
+
+// Add type definition for checkGuess return value
+export type CheckGuessResult = GuessOutcome & {
+  // The round that was answered
+  confession?: Confession;
+  // Nothing is open for this command. When the round the player meant is open but answered with
+  // another command, its mode says which.
+  noRound?: { wrongCommand?: Message };
+  error?: Message;
+  // Set only when the round ended and a queued confession took its place
+  nextConfession?: Confession;
+  // Top players after the round ended, for the announcement
+  leaderboard?: PlayerStats[];
+  // The answer's message was already counted, e.g. handled again after a restart
+  repeated?: boolean;
+};
+
+// How many players the end-of-round announcement shows
+const ROUND_END_LEADERBOARD_SIZE = 3;
+
+// Records a /guess or /lie on an open round, the oldest one answered with that command unless
+// an ID is given. The round's game mode decides whether the answer counts and how it scores.
+export async function checkGuess(
+  store: GameStore,
+  // The command the answer came with, e.g. "guess"
+  command: string,
+  guess: string,
+  guesser: PlayerIdentity,
+  rules: GuessRules,
+  rounds: RoundConfig,
+  // Which open round the answer is for; the oldest matching one when left out
+  targetId?: number,
+  now: Date = new Date(),
+  // The answer's message; an answer from a message already counted is ignored
+  messageId?: string
+): Promise<CheckGuessResult> {
+  try {
+    // The whole check runs as one store update so simultaneous answers can't overwrite each other
+    return await store.update((gameData): CheckGuessResult => {
+      if (messageId && gameData.questions.some((q) => q.answerMessageIds?.includes(messageId))) {
+        return { repeated: true };
+      }
+
+      const round = getActiveConfessions(gameData).find(
+        (r) => (targetId === undefined || r.id === targetId) && getGameMode(getRoundMode(r)).guessCommand === command
+      );
+      if (!round) {
+        const otherRound = getActiveConfession(gameData, targetId);
+        if (!otherRound) {
+          return { noRound: {} };
+        }
+        const { wrongCommandKey } = getGameMode(getRoundMode(otherRound));
+        return { noRound: { wrongCommand: { key: wrongCommandKey, vars: { id: otherRound.id } } } };
+      }
+
+      const outcome = getGameMode(getRoundMode(round)).scoreGuess(gameData, round, guess, guesser, rules, now);
+      if (outcome.rejection) {
+        return outcome;
+      }
+      if (messageId) {
+        round.answerMessageIds = [...(round.answerMessageIds ?? []), messageId];
+      }
+      if (!outcome.end) {
+        return { ...outcome, confession: round };
+      }
+      return {
+        ...outcome,
+        confession: round,
+        nextConfession: endRound(gameData, round, outcome.end.status, rounds, now),
+        leaderboard: getLeaderboard(gameData, ROUND_END_LEADERBOARD_SIZE),
+      };
+    });
+  } catch (error) {
+    logger.error(`Failed to check guess: ${error}`);
+    return { error: { key: "guess.failed" } };
+  }
+}
+
+// Ends an open confession without a winner (admin /skip or /reveal), the oldest one unless an
+// ID is given. Returns the closed confession and the one that took its place.
+export async function closeActiveConfession(
+  store: GameStore,
+  status: "expired" | "revealed",
+  rounds: RoundConfig,
+  id?: number,
+  now: Date = new Date(),
+  // The admin message; one that already ended a round doesn't end another
+  messageId?: string
+): Promise<{ closed?: Confession; next?: Confession; repeated?: boolean }> {
+  return store.update((gameData) => {
+    const alreadyClosed = messageId && gameData.questions.find((q) => q.closedByMessageId === messageId);
+    if (alreadyClosed) {
+      return { closed: alreadyClosed, repeated: true };
+    }
+    const closed = getActiveConfession(gameData, id);
+    if (!closed) {
+      return {};
+    }
+    closed.closedByMessageId = messageId;
+    return { closed, next: endRound(gameData, closed, status, rounds, now) };
+  });
+}
+
+// Ends an open round and reveals its answer (admin /reveal), the oldest one unless an ID is
+// given. The round's game scores it and says what to announce.
+export async function revealActiveRound(
+  store: GameStore,
+  rounds: RoundConfig,
+  id?: number,
+  now: Date = new Date(),
+  // The admin message; one that already ended a round doesn't end another
+  messageId?: string
+): Promise<{ closed?: Confession; end?: RoundEnd; next?: Confession; repeated?: boolean }> {
+  return store.update((gameData) => {
+    const alreadyClosed = messageId && gameData.questions.find((q) => q.closedByMessageId === messageId);
+    if (alreadyClosed) {
+      return { closed: alreadyClosed, repeated: true };
+    }
+    const closed = getActiveConfession(gameData, id);
+    if (!closed) {
+      return {};
+    }
+    closed.closedByMessageId = messageId;
+    const end = getGameMode(getRoundMode(closed)).finishRound(gameData, closed, rounds, "reveal");
+    return { closed, end, next: endRound(gameData, closed, end.status, rounds, now) };
+  });
+}
+
+// Deletes a confession, whether it's being guessed or still waiting.
+// `next` is only set when the removed confession was the one up for guessing.
+export async function removeConfession(
+  store: GameStore,
+  id: number,
+  rounds: RoundConfig,
+  now: Date = new Date()
+): Promise<{ removed?: Confession; next?: Confession }> {
+  return store.update((gameData) => {
+    const index = gameData.questions.findIndex((q) => q.id === id);
+    if (index === -1) {
+      return {};
+    }
+    const [removed] = gameData.questions.splice(index, 1);
+    return { removed, next: activateNextConfession(gameData, rounds, now) };
+  });
+}
+
+// Withdraws the player's own confession while it's still waiting in the queue. Takes the
+// given ID, or the player's most recent queued confession when there's none.
+// A /retract message handled again retracts nothing more
+export async function retractConfession(
+  store: GameStore,
+  confessorInboxId: string,
+  id?: number,
+  messageId?: string
+): Promise<{ retracted?: Confession; repeated?: boolean }> {
+  return store.update((gameData) => {
+    if (messageId && gameData.actionMessageIds.includes(messageId)) {
+      return { repeated: true };
+    }
+    const own = getQueuedConfessions(gameData).filter((q) => isSameString(q.confessorInboxId, confessorInboxId));
+    const retracted = id === undefined ? own[own.length - 1] : own.find((q) => q.id === id);
+    if (!retracted) {
+      return {};
+    }
+    gameData.questions = gameData.questions.filter((q) => q !== retracted);
+    if (messageId) recordMessageAction(gameData, messageId);
+    return { retracted };
+  });
+}
+
+// Something the round timer needs to tell the group about
+export type RoundTimerEvent =
+  | { type: "reminder"; confession: Confession; remainingMs: number }
+  | { type: "timeout"; confession: Confession; end: RoundEnd; next?: Confession }
+  | { type: "activated"; confession: Confession };
+
+// Checks the open confessions' deadlines and returns what happened. Safe to call as often as
+// needed: reminders and timeouts are recorded in the store, so each fires once, even across restarts.
+export async function processRoundTimers(
+  store: GameStore,
+  rounds: RoundConfig,
+  now: Date = new Date()
+): Promise<RoundTimerEvent[]> {
+  return store.update((gameData) => {
+    const events: RoundTimerEvent[] = [];
+
+    // Fill free slots, e.g. after a crash between ending one round and starting the next
+    // or after MAX_OPEN_CONFESSIONS was raised
+    let recovered: Confession | undefined;
+    while ((recovered = activateNextConfession(gameData, rounds, now))) {
+      events.push({ type: "activated", confession: recovered });
+    }
+
+    for (const active of getActiveConfessions(gameData)) {
+      if (!active.endsAt) {
+        continue;
+      }
+      const remainingMs = new Date(active.endsAt).getTime() - now.getTime();
+      if (remainingMs <= 0) {
+        const end = getGameMode(getRoundMode(active)).finishRound(gameData, active, rounds, "timeout");
+        const next = endRound(gameData, active, end.status, rounds, now);
+        events.push({ type: "timeout", confession: active, end, next });
+      } else if (rounds.reminderMs > 0 && remainingMs <= rounds.reminderMs && !active.reminderSent) {
+        active.reminderSent = true;
+        events.push({ type: "reminder", confession: active, remainingMs });
+      }
+    }
+    return events;
+  });
+}
+
+// Clears all confessions and scores. Bans and the ID counter are kept so IDs are never reused.
+// Returns false when the /reset message was already applied, so it doesn't wipe a game started since
+export async function resetGame(store: GameStore, messageId?: string) {
+  return store.update((gameData) => {
+    if (messageId && !recordMessageAction(gameData, messageId)) {
+      return false;
+    }
+    gameData.questions = [];
+    gameData.players = {};
+    return true;
+  });
+}
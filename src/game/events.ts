@@ -0,0 +1,49 @@
+import { EventEmitter } from "events";
+import type { GameModeId } from "../store/index.js";
+
+// Something that happened in the game, for live views like the dashboard. Never carries who
+// confessed unless the group was told too.
+export type GameEvent =
+  | { type: "confession"; id: number; question: string }
+  | { type: "guess"; id: number; guesser: string; correct: boolean; close?: boolean }
+  | { type: "hint"; id: number; hint: string }
+  // Someone voted in Two Truths and a Lie; `votes` is how many have, not what they picked
+  | { type: "vote"; id: number; votes: number }
+  | { type: "reminder"; id: number; remainingMs: number }
+  | {
+      type: "round_end";
+      id: number;
+      outcome: "solved" | "survived" | "timeout" | "skipped" | "revealed";
+      guesser?: string;
+      confessor?: string;
+      points?: number;
+    }
+  | { type: "removed"; id: number }
+  // Someone added or took back a 🌶️ reaction; `votes` is the new tally
+  | { type: "spicy"; id: number; votes: number }
+  | { type: "announcement"; text: string }
+  | { type: "mode"; mode: GameModeId }
+  | { type: "reset" };
+
+export type GameEvents = {
+  emit: (event: GameEvent) => void;
+  // Returns a function that stops listening
+  subscribe: (listener: (event: GameEvent & { timestamp: string }) => void) => () => void;
+};
+
+export const createGameEvents = (now: () => Date = () => new Date()): GameEvents => {
+  const emitter = new EventEmitter();
+  // Every open dashboard subscribes, so don't warn about "leaks" past the default of 10
+  emitter.setMaxListeners(0);
+  return {
+    emit: (event) => {
+      emitter.emit("event", { ...event, timestamp: now().toISOString() });
+    },
+    subscribe: (listener) => {
+      emitter.on("event", listener);
+      return () => {
+        emitter.off("event", listener);
+      };
+    },
+  };
+};
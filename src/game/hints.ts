@@ -0,0 +1,90 @@
+import type { Message, Translate } from "../messages/index.js";
+import type { Confession, GameStore } from "../store/index.js";
+import { recordMessageAction } from "./replays.js";
+import { getActiveConfession } from "./rounds.js";
+import { getCorrectGuessPoints } from "./scoring.js";
+
+// The part of a name players actually guess: "alice" for "alice.base.eth"
+const getNameLabel = (name: string) => name.split(".")[0];
+
+const maskLabel = (label: string) =>
+  label.length <= 2 ? label[0] + "*" : label[0] + "*".repeat(label.length - 2) + label[label.length - 1];
+
+// Every hint for a confession, from vaguest to most revealing
+export function buildHints(confession: Confession): Message[] {
+  const hints: Message[] = [];
+  if (confession.customHint) {
+    hints.push({ key: "hint.custom", vars: { hint: confession.customHint } });
+  }
+  if (confession.answer) {
+    const label = getNameLabel(confession.answer);
+    const suffix = confession.answer.slice(label.length);
+    hints.push(
+      suffix
+        ? { key: "hint.lengthBeforeSuffix", vars: { length: label.length, suffix } }
+        : { key: "hint.length", vars: { length: label.length } }
+    );
+    hints.push({ key: "hint.firstLetter", vars: { letter: label[0].toUpperCase() } });
+    hints.push({ key: "hint.masked", vars: { masked: maskLabel(label) + suffix } });
+  }
+  hints.push({ key: "hint.address", vars: { ending: confession.confessorAddress.slice(-4) } });
+  return hints;
+}
+
+export type RevealedHint = {
+  confessionId: number;
+  hint: Message;
+  // 1-based position of this hint and how many exist in total
+  number: number;
+  total: number;
+  // What a correct guess is worth now
+  pointsAvailable: number;
+};
+
+// Reveals the next hint for a confession in place. Returns undefined when all hints are out.
+export function revealNextHint(confession: Confession): RevealedHint | undefined {
+  const hints = buildHints(confession);
+  if (confession.hintsRevealed >= hints.length) {
+    return undefined;
+  }
+  confession.hintsRevealed++;
+  return {
+    confessionId: confession.id,
+    hint: hints[confession.hintsRevealed - 1],
+    number: confession.hintsRevealed,
+    total: hints.length,
+    pointsAvailable: getCorrectGuessPoints(confession.incorrectGuesses, confession.hintsRevealed),
+  };
+}
+
+// Reveals the next hint for an open confession (/hint), the oldest one unless an ID is given.
+// Other games' rounds have no hints. A /hint message handled again reveals nothing more.
+export async function revealHintForActiveConfession(
+  store: GameStore,
+  id?: number,
+  messageId?: string
+): Promise<{ confession?: Confession; revealed?: RevealedHint; repeated?: boolean }> {
+  return store.update((gameData) => {
+    const confession = getActiveConfession(gameData, id, "confessions");
+    if (!confession) {
+      return {};
+    }
+    if (messageId && !recordMessageAction(gameData, messageId)) {
+      return { confession, repeated: true };
+    }
+    return { confession, revealed: revealNextHint(confession) };
+  });
+}
+
+export function formatHint({ confessionId, hint, number, total, pointsAvailable }: RevealedHint, t: Translate) {
+  return t("hint.format", { number, total, id: confessionId, hint: t(hint.key, hint.vars), points: pointsAvailable });
+}
+
+// Splits "/confess I love pizza hint: I'm always hungry" into the confession and the hint
+export function parseCustomHint(text: string): { confession: string; customHint?: string } {
+  const match = text.match(/^([\s\S]*?)\s+hint:\s*([\s\S]+)$/i);
+  if (!match || !match[1].trim()) {
+    return { confession: text };
+  }
+  return { confession: match[1].trim(), customHint: match[2].trim() };
+}
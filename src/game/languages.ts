@@ -0,0 +1,23 @@
+import type { Messages, Translate } from "../messages/index.js";
+import type { GameStore } from "../store/index.js";
+
+type LanguageServices = { store: GameStore; messages: Messages };
+
+// The locale a player reads their DMs in: their /lang choice while it's still available,
+// otherwise the group's
+export async function getPlayerLocale({ store, messages }: LanguageServices, inboxId: string) {
+  const gameData = await store.read();
+  const chosen = gameData.languages[inboxId.toLowerCase()];
+  return (chosen && messages.findLocale(chosen)) || messages.defaultLocale;
+}
+
+export async function setPlayerLocale(store: GameStore, inboxId: string, locale: string) {
+  await store.update((gameData) => {
+    gameData.languages[inboxId.toLowerCase()] = locale;
+  });
+}
+
+// Formats messages for a DM to one player, in their language
+export async function getPlayerTranslator(services: LanguageServices, inboxId: string): Promise<Translate> {
+  return services.messages.translator(await getPlayerLocale(services, inboxId));
+}
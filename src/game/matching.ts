@@ -0,0 +1,65 @@
+import { getEditDistance, getTruncatedAddress, isEthereumAddress } from "../helpers/utils.js";
+import type { Confession } from "../store/index.js";
+
+export type GuessMatch = "correct" | "close" | "wrong";
+
+// Name suffixes players may or may not type; checked longest first
+const NAME_SUFFIXES = [".base.eth", ".eth"];
+
+// Letters from other scripts that look like Latin ones, so "аlice" (Cyrillic а) matches "alice"
+const LOOKALIKES: Record<string, string> = {
+  "а": "a", "в": "b", "е": "e", "к": "k", "м": "m", "н": "h", "о": "o", "р": "p",
+  "с": "c", "т": "t", "у": "y", "х": "x", "і": "i", "ј": "j", "ѕ": "s", "ԁ": "d",
+  "ɡ": "g", "ο": "o", "α": "a", "ν": "v", "ι": "i", "κ": "k", "τ": "t", "ρ": "p",
+};
+
+// Lower-cases, folds compatibility forms and accents, swaps lookalike letters and drops
+// whitespace, a leading @ and known name suffixes
+export function normalizeName(value: string) {
+  let normalized = value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[\s\u200B-\u200D\uFEFF]+/g, "")
+    .replace(/^@/, "");
+  normalized = [...normalized].map((char) => LOOKALIKES[char] ?? char).join("");
+  const suffix = NAME_SUFFIXES.find((s) => normalized.endsWith(s) && normalized.length > s.length);
+  return suffix ? normalized.slice(0, -suffix.length) : normalized;
+}
+
+// "0xAbC1…7890", "0xabc1...7890" and "@0xabc1...7890" are the same truncated address
+const normalizeAddress = (value: string) =>
+  value
+    .trim()
+    .replace(/^@\s*/, "")
+    .toLowerCase()
+    .replace(/…|\.{2,}/g, "...");
+
+// How many typos still count as "so close": fewer for short names, where one letter is a lot
+const getNearMissDistance = (name: string) => (name.length <= 4 ? 1 : 2);
+
+// Compares a guess with the confessor's name and address
+export function matchGuess(confession: Confession, guess: string): GuessMatch {
+  const address = normalizeAddress(guess);
+  if (address.startsWith("0x")) {
+    if (isEthereumAddress(address)) {
+      return address === confession.confessorAddress.toLowerCase() ? "correct" : "wrong";
+    }
+    return address === getTruncatedAddress(confession.confessorAddress).toLowerCase() ? "correct" : "wrong";
+  }
+
+  if (!confession.answer) {
+    return "wrong";
+  }
+  const normalizedGuess = normalizeName(guess);
+  const normalizedAnswer = normalizeName(confession.answer);
+  if (!normalizedGuess) {
+    return "wrong";
+  }
+  if (normalizedGuess === normalizedAnswer) {
+    return "correct";
+  }
+  return getEditDistance(normalizedGuess, normalizedAnswer) <= getNearMissDistance(normalizedAnswer)
+    ? "close"
+    : "wrong";
+}
@@ -0,0 +1,88 @@
+import fs from "fs/promises";
+import type { BotClient, BotGroup } from "../helpers/client.js";
+import { logger } from "../helpers/logger.js";
+import { getAddressFromXMTPIdentity, isEthereumAddress, isSameString } from "../helpers/utils.js";
+import { addMemberIfMissing } from "../offsite.js";
+import type { GameStore } from "../store/index.js";
+
+export type MembershipConfig = {
+  // File of addresses allowed in the group, one per line. Anyone can join when unset.
+  allowlistPath?: string;
+};
+
+export const DEFAULT_MEMBERSHIP_CONFIG: MembershipConfig = {};
+
+// Reads ALLOWLIST_PATH, falling back to `base`
+export function getMembershipConfigFromEnv(base: MembershipConfig = DEFAULT_MEMBERSHIP_CONFIG): MembershipConfig {
+  const { ALLOWLIST_PATH } = process.env;
+  return { allowlistPath: ALLOWLIST_PATH || base.allowlistPath };
+}
+
+// Reads an allowlist file: one address per line, blank lines and lines starting with # skipped.
+// Returns the addresses in lowercase.
+export async function loadAllowlist(filePath: string): Promise<Set<string>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    throw new Error(`Could not read allowlist ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const lines = raw.split("\n").map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  const invalid = lines.filter((line) => !isEthereumAddress(line));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid allowlist ${filePath}: not an address: ${invalid.join(", ")}`);
+  }
+  logger.info(`Using allowlist ${filePath} (${lines.length} addresses)`);
+  return new Set(lines.map((line) => line.toLowerCase()));
+}
+
+export async function isOptedOut(store: GameStore, inboxId: string) {
+  const gameData = await store.read();
+  return gameData.doNotAddInboxIds.some((optedOut) => isSameString(optedOut, inboxId));
+}
+
+// Puts the inbox on the do-not-add list. Returns false if it already was.
+export async function optOut(store: GameStore, inboxId: string) {
+  return store.update((gameData) => {
+    if (gameData.doNotAddInboxIds.some((optedOut) => isSameString(optedOut, inboxId))) {
+      return false;
+    }
+    gameData.doNotAddInboxIds.push(inboxId.toLowerCase());
+    return true;
+  });
+}
+
+// Takes the inbox off the do-not-add list, e.g. when they ask to /join again
+export async function optIn(store: GameStore, inboxId: string) {
+  await store.update((gameData) => {
+    gameData.doNotAddInboxIds = gameData.doNotAddInboxIds.filter((optedOut) => !isSameString(optedOut, inboxId));
+  });
+}
+
+// Whether the inbox's address is on the allowlist. Everyone is when there's no allowlist.
+export async function isInvited(client: BotClient, allowlist: ReadonlySet<string> | undefined, inboxId: string) {
+  if (!allowlist) {
+    return true;
+  }
+  const address = await getAddressFromXMTPIdentity(client, inboxId);
+  return address !== undefined && allowlist.has(address.toLowerCase());
+}
+
+// What happened when the bot tried to add someone to a group
+export type AddMemberResult = "added" | "alreadyMember" | "optedOut" | "notInvited";
+
+// Adds the inbox to the group unless they left it or aren't on the allowlist. Every add goes
+// through here so nobody who opted out is added back behind their back.
+export async function addMemberWithConsent(
+  { client, group, store, allowlist }: { client: BotClient; group: BotGroup; store: GameStore; allowlist?: ReadonlySet<string> },
+  inboxId: string
+): Promise<AddMemberResult> {
+  if (await isOptedOut(store, inboxId)) {
+    return "optedOut";
+  }
+  if (!(await isInvited(client, allowlist, inboxId))) {
+    logger.info(`Not adding ${inboxId} to ${group.name}: Not on the allowlist`);
+    return "notInvited";
+  }
+  return (await addMemberIfMissing(group, inboxId)) ? "added" : "alreadyMember";
+}
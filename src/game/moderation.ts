@@ -0,0 +1,106 @@
+import type { MessageKey, Translate } from "../messages/index.js";
+import type { GameStore, PendingSubmission } from "../store/index.js";
+
+export type ModerationConfig = {
+  // Hold every submission until an admin approves it
+  reviewMode: boolean;
+  blockedWords: string[];
+};
+
+// Personal details that shouldn't end up in an anonymous group chat. At a crypto event a wallet
+// address or ENS name points at a person as surely as an email does.
+const CONTENT_RULES: { pattern: RegExp; reason: MessageKey }[] = [
+  {
+    pattern: /[^\s@]+@[^\s@]+\.[a-z]{2,}/i,
+    reason: "moderation.email",
+  },
+  {
+    // Checked before phone numbers, which a run of hex digits can look like
+    pattern: /\b0x[0-9a-f]{40}\b/i,
+    reason: "moderation.walletAddress",
+  },
+  {
+    // alice.eth, alice.base.eth
+    pattern: /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.eth\b/i,
+    reason: "moderation.ensName",
+  },
+  {
+    pattern: /(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/,
+    reason: "moderation.phone",
+  },
+  {
+    pattern:
+      /\b\d{1,5}\s+(?:[a-z0-9.'-]+\s+){0,3}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl)\b/i,
+    reason: "moderation.streetAddress",
+  },
+];
+
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  reviewMode: false,
+  blockedWords: [],
+};
+
+// Reads MODERATION_REVIEW ("true" to hold submissions for review) and BLOCKED_WORDS
+// (comma-separated), falling back to `base`
+export function getModerationConfigFromEnv(base: ModerationConfig = DEFAULT_MODERATION_CONFIG): ModerationConfig {
+  const { MODERATION_REVIEW, BLOCKED_WORDS } = process.env;
+  return {
+    reviewMode: MODERATION_REVIEW ? MODERATION_REVIEW === "true" : base.reviewMode,
+    blockedWords: BLOCKED_WORDS === undefined
+      ? base.blockedWords
+      : BLOCKED_WORDS.split(",").map((word) => word.trim().toLowerCase()).filter(Boolean),
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Returns why the text can't be posted, or undefined if it passes the filter
+export function findContentViolation(text: string, config: ModerationConfig): MessageKey | undefined {
+  const blockedWord = config.blockedWords.find((word) =>
+    new RegExp(`\\b${escapeRegExp(word)}\\b`, "i").test(text)
+  );
+  if (blockedWord) {
+    return "moderation.blockedWord";
+  }
+  return CONTENT_RULES.find((rule) => rule.pattern.test(text))?.reason;
+}
+
+export async function queueSubmission(
+  store: GameStore,
+  submission: Omit<PendingSubmission, "id" | "timestamp">
+): Promise<PendingSubmission> {
+  return store.update((gameData) => {
+    // A message handled again after a restart gets the submission it already queued
+    const existing =
+      submission.sourceMessageId && gameData.pendingSubmissions.find((s) => s.sourceMessageId === submission.sourceMessageId);
+    if (existing) {
+      return existing;
+    }
+    const queued = {
+      ...submission,
+      id: gameData.nextSubmissionId++,
+      timestamp: new Date().toISOString(),
+    };
+    gameData.pendingSubmissions.push(queued);
+    return queued;
+  });
+}
+
+// Removes a submission from the review queue and returns it, so it can only be decided once
+export async function takeSubmission(store: GameStore, id: number) {
+  return store.update((gameData) => {
+    const index = gameData.pendingSubmissions.findIndex((s) => s.id === id);
+    return index === -1 ? undefined : gameData.pendingSubmissions.splice(index, 1)[0];
+  });
+}
+
+// The DM admins get for each submission in review mode. Each group numbers its own
+// submissions, so when the bot runs several, `group.id` goes in the /approve and /reject to send.
+export function formatReviewRequest(submission: PendingSubmission, t: Translate, group: { name: string; id?: string }) {
+  return t(submission.kind === "confession" ? "review.confessionRequest" : "review.shhRequest", {
+    id: submission.id,
+    text: submission.text,
+    group: group.name,
+    target: group.id ? `${group.id} ${submission.id}` : submission.id,
+  });
+}
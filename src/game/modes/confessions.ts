@@ -0,0 +1,113 @@
+import { isSameString } from "../../helpers/utils.js";
+import type { Message } from "../../messages/index.js";
+import type { Confession } from "../../store/index.js";
+import { formatPlayerName, recordCorrectGuess, recordSurvivedConfession, recordWrongGuess } from "../scoring.js";
+import { parseCustomHint, revealNextHint } from "../hints.js";
+import { matchGuess } from "../matching.js";
+import type { GuessRules } from "../rules.js";
+import type { GameMode, GuessOutcome, RoundEnd } from "./types.js";
+
+// Why a player may not guess right now, or undefined if they may
+function getGuessRejection(
+  confession: Confession,
+  guesserInboxId: string,
+  rules: GuessRules,
+  now: Date
+): Message | undefined {
+  if (isSameString(confession.confessorInboxId, guesserInboxId)) {
+    return { key: "guess.ownConfession" };
+  }
+
+  const attempts = confession.guesses.filter((g) => isSameString(g.guesserInboxId, guesserInboxId));
+  if (attempts.length >= rules.attemptsPerPlayer) {
+    return { key: "guess.outOfAttempts", vars: { attempts: rules.attemptsPerPlayer } };
+  }
+
+  const lastAttempt = attempts[attempts.length - 1];
+  if (lastAttempt) {
+    const waitMs = new Date(lastAttempt.timestamp).getTime() + rules.cooldownMs - now.getTime();
+    if (waitMs > 0) {
+      return { key: "guess.cooldown", vars: { seconds: Math.ceil(waitMs / 1000) } };
+    }
+  }
+  return undefined;
+}
+
+// The original game: someone confesses anonymously and the group guesses who by name
+export const confessionMode: GameMode = {
+  id: "confessions",
+  nameKey: "mode.confessions",
+  howToKey: "mode.confessionsHowTo",
+  submitCommand: "confess",
+  parseSubmission: (text) => {
+    const { confession, customHint } = parseCustomHint(text);
+    return { question: confession, customHint };
+  },
+  formatRoundStart: ({ id, question }, next) => ({ key: next ? "confession.next" : "confession.new", vars: { id, question } }),
+  formatReminder: ({ id, question }, minutes) => ({
+    key: minutes === 1 ? "round.reminderOne" : "round.reminder",
+    vars: { minutes, id, question },
+  }),
+  liveNoticeKey: "confessor.live",
+  savedLiveKey: "confession.savedLive",
+  savedQueuedKey: "confession.savedQueued",
+  evaluateGuess: matchGuess,
+  guessCommand: "guess",
+  wrongCommandKey: "confession.wrongCommand",
+  // A correct guess solves the round; wrong ones count toward the limit the confessor survives
+  scoreGuess: (state, round, guess, guesser, rules, now): GuessOutcome => {
+    const rejection = getGuessRejection(round, guesser.inboxId, rules, now);
+    if (rejection) {
+      return { rejection };
+    }
+
+    const match = confessionMode.evaluateGuess(round, guess);
+    round.guesses.push({
+      guesserInboxId: guesser.inboxId,
+      correct: match === "correct",
+      close: match === "close" || undefined,
+      timestamp: now.toISOString(),
+    });
+
+    // A near miss still uses up one of the player's attempts, but by default not the round's
+    if (match === "close" && !rules.countNearMisses) {
+      return { match };
+    }
+    if (match === "correct") {
+      return { match, end: { status: "solved", points: recordCorrectGuess(state, guesser, round) } };
+    }
+
+    round.incorrectGuesses = (round.incorrectGuesses || 0) + 1;
+    recordWrongGuess(state, guesser);
+    // If we've reached the wrong-guess limit, the confessor survives the round
+    if (round.incorrectGuesses >= rules.maxIncorrectGuesses) {
+      return { match, end: { status: "expired", points: recordSurvivedConfession(state, round) } };
+    }
+    // Enough wrong guesses piled up to earn the group a free hint
+    const hint = rules.hintThresholds.includes(round.incorrectGuesses) ? revealNextHint(round) : undefined;
+    return { match, hint };
+  },
+  finishRound: (state, round, rounds, reason): RoundEnd => {
+    const { id, question } = round;
+    const name = formatPlayerName({ inboxId: round.confessorInboxId, address: round.confessorAddress, name: round.answer });
+    // An admin reveal ends the round without points; running out of time means the confessor survived
+    if (reason === "reveal") {
+      return {
+        status: "revealed",
+        points: 0,
+        announcement: { key: "admin.revealed", vars: { id, question, name } },
+        submitterNotice: { key: "confessor.revealed" },
+      };
+    }
+    const points = recordSurvivedConfession(state, round);
+    const revealed = rounds.timeoutAction === "reveal";
+    return {
+      status: revealed ? "revealed" : "expired",
+      points,
+      announcement: revealed
+        ? { key: "round.timeoutRevealed", vars: { id, question, name, points } }
+        : { key: "round.timeoutExpired", vars: { id, question, points } },
+      submitterNotice: { key: "confessor.timeout", vars: { points } },
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import type { GameModeId, GameState, GameStore } from "../../store/index.js";
+import { confessionMode } from "./confessions.js";
+import { twoTruthsMode } from "./twoTruths.js";
+import type { GameMode } from "./types.js";
+
+export type { GameMode, GuessOutcome, RoundContent, RoundEnd } from "./types.js";
+export { confessionMode } from "./confessions.js";
+export { parseLieChoice, twoTruthsMode } from "./twoTruths.js";
+
+export const GAME_MODES: readonly GameMode[] = [confessionMode, twoTruthsMode];
+
+export const getGameMode = (id: GameModeId = "confessions") => GAME_MODES.find((mode) => mode.id === id) ?? confessionMode;
+
+// Matches what an admin typed after /mode, by ID or a shorthand like "truths" or "2truths"
+export function findGameMode(text: string) {
+  const wanted = text.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+  return GAME_MODES.find((mode) => {
+    const id = mode.id.replace(/[^a-z0-9]/g, "");
+    return id === wanted || mode.submitCommand === wanted || (wanted.length >= 3 && id.includes(wanted));
+  });
+}
+
+// The game new submissions in a group are for
+export const getStateGameMode = (state: GameState) => getGameMode(state.mode);
+
+export async function getCurrentGameMode(store: GameStore) {
+  return getStateGameMode(await store.read());
+}
+
+// Returns the mode the group was playing before
+export async function setGameMode(store: GameStore, id: GameModeId) {
+  return store.update((gameData) => {
+    const previous = getStateGameMode(gameData);
+    gameData.mode = id;
+    return previous;
+  });
+}
@@ -0,0 +1,104 @@
+import { isSameString } from "../../helpers/utils.js";
+import type { Message } from "../../messages/index.js";
+import type { Confession } from "../../store/index.js";
+import { formatPlayerName, recordFooledVoters, recordLieVote, SCORING } from "../scoring.js";
+import type { GameMode, RoundContent } from "./types.js";
+
+const STATEMENT_COUNT = 3;
+
+// Helper to number a round's statements for the group, one per line
+const formatStatements = (statements: string[] = []) => statements.map((text, i) => `${i + 1}. ${text}`).join("\n");
+
+const formatTeller = (round: Confession) =>
+  formatPlayerName({ inboxId: round.confessorInboxId, address: round.confessorAddress, name: round.answer });
+
+// Reads a vote like "2" or "#2" as 1, 2 or 3; anything else is undefined
+export function parseLieChoice(text: string): number | undefined {
+  const choice = Number(text.trim().replace(/^#/, ""));
+  return Number.isInteger(choice) && choice >= 1 && choice <= STATEMENT_COUNT ? choice : undefined;
+}
+
+// A player submits three statements about themselves, one of them false, and the group votes on
+// which is the lie. The teller isn't anonymous: the game is about them.
+export const twoTruthsMode: GameMode = {
+  id: "two-truths",
+  nameKey: "mode.twoTruths",
+  howToKey: "mode.twoTruthsHowTo",
+  submitCommand: "truths",
+  // "I have a twin | I've been to Japan | I hate coffee lie: 3", or one statement per line
+  parseSubmission: (text): RoundContent | { error: Message } => {
+    const match = text.match(/^([\s\S]*?)\s*lie:\s*(\S+)\s*$/i);
+    const statements = (match?.[1] ?? text)
+      .split(/\s*[|\n]\s*/)
+      .map((statement) => statement.trim())
+      .filter(Boolean);
+    const lieNumber = match ? parseLieChoice(match[2]) : undefined;
+    if (statements.length !== STATEMENT_COUNT || lieNumber === undefined) {
+      return { error: { key: "twoTruths.invalid" } };
+    }
+    return { question: statements.join(" / "), statements, lieNumber };
+  },
+  formatRoundStart: (round, next) => ({
+    key: next ? "twoTruths.next" : "twoTruths.new",
+    vars: { id: round.id, name: formatTeller(round), statements: formatStatements(round.statements) },
+  }),
+  formatReminder: (round, minutes) => ({
+    key: minutes === 1 ? "twoTruths.reminderOne" : "twoTruths.reminder",
+    vars: { minutes, id: round.id, name: formatTeller(round) },
+  }),
+  liveNoticeKey: "twoTruths.live",
+  savedLiveKey: "twoTruths.savedLive",
+  savedQueuedKey: "twoTruths.savedQueued",
+  evaluateGuess: (round, guess) => (parseLieChoice(guess) === round.lieNumber ? "correct" : "wrong"),
+  guessCommand: "lie",
+  wrongCommandKey: "twoTruths.wrongCommand",
+  // Votes are only scored when voting ends; a player's new vote replaces their old one until then
+  scoreGuess: (_state, round, guess, voter, _rules, now) => {
+    const choice = parseLieChoice(guess);
+    if (choice === undefined) {
+      return { rejection: { key: "lie.invalid" } };
+    }
+    if (isSameString(round.confessorInboxId, voter.inboxId)) {
+      return { rejection: { key: "lie.ownRound" } };
+    }
+    const votes = (round.votes ??= []);
+    const vote = { ...voter, choice, timestamp: now.toISOString() };
+    const previous = votes.findIndex((v) => isSameString(v.inboxId, voter.inboxId));
+    if (previous === -1) {
+      votes.push(vote);
+    } else {
+      votes[previous] = vote;
+    }
+    return { changed: previous !== -1 };
+  },
+  // Voting ends the same way whether time ran out or an admin revealed the lie
+  finishRound: (state, round) => {
+    const votes = round.votes ?? [];
+    let spotted = 0;
+    for (const vote of votes) {
+      const correct = twoTruthsMode.evaluateGuess(round, String(vote.choice)) === "correct";
+      recordLieVote(state, vote, correct);
+      if (correct) spotted++;
+    }
+    const points = recordFooledVoters(state, round, votes.length - spotted, spotted);
+    const lieNumber = round.lieNumber ?? 0;
+    return {
+      status: "revealed",
+      points,
+      announcement: {
+        key: "twoTruths.revealed",
+        vars: {
+          id: round.id,
+          name: formatTeller(round),
+          number: lieNumber,
+          lie: round.statements?.[lieNumber - 1] ?? "",
+          spotted,
+          votes: votes.length,
+          votePoints: SCORING.spottedLie,
+          points,
+        },
+      },
+      submitterNotice: { key: "twoTruths.result", vars: { spotted, votes: votes.length, points } },
+    };
+  },
+};
@@ -0,0 +1,68 @@
+import type { Message, MessageKey } from "../../messages/index.js";
+import type { Confession, GameModeId, GameState } from "../../store/index.js";
+import type { RevealedHint } from "../hints.js";
+import type { GuessMatch } from "../matching.js";
+import type { RoundConfig } from "../rounds.js";
+import type { GuessRules } from "../rules.js";
+import type { PlayerIdentity } from "../scoring.js";
+
+// What a submission becomes once it's checked: the round's content, before it's queued
+export type RoundContent = Pick<Confession, "question" | "customHint" | "statements" | "lieNumber">;
+
+// How a round ended, once its mode has scored it
+export type RoundEnd = {
+  status: "expired" | "revealed";
+  // Points for the submitter
+  points: number;
+  // What the group is told, and what the submitter is told by DM
+  announcement: Message;
+  submitterNotice: Message;
+};
+
+// What one /guess or /lie did to a round, once its mode has recorded and scored it
+export type GuessOutcome = {
+  // Set when the answer was refused without counting; meant for the player only
+  rejection?: Message;
+  // How the answer compares with the round's secret. Left out for answers that are only
+  // scored when the round ends, like votes.
+  match?: GuessMatch;
+  // The player's earlier answer was replaced
+  changed?: boolean;
+  // Set when the answer ended the round: how, and the points it earned, for the guesser when
+  // solved or the submitter when they survived
+  end?: { status: "solved" | "expired"; points: number };
+  // Set when this answer crossed an automatic hint threshold
+  hint?: RevealedHint;
+};
+
+// One game the bot can run in a group. Queueing, timers and moderation are shared; a mode
+// decides what players submit, how rounds are shown and answered, and how they're scored.
+export type GameMode = {
+  id: GameModeId;
+  // The mode's name, and how to take part in it, e.g. for when an admin switches to it
+  nameKey: MessageKey;
+  howToKey: MessageKey;
+  // Submission: the DM command that submits a round, and what its text turns into
+  submitCommand: string;
+  parseSubmission: (text: string) => RoundContent | { error: Message };
+  // Round start: what the group is told when a round goes live (`next` when it took over from
+  // one that just ended), reminded of before it ends, and what the submitter is told
+  formatRoundStart: (round: Confession, next: boolean) => Message;
+  formatReminder: (round: Confession, minutes: number) => Message;
+  liveNoticeKey: MessageKey;
+  // The submitter's reply when their round went live right away, or when it's waiting ({position})
+  savedLiveKey: MessageKey;
+  savedQueuedKey: MessageKey;
+  // Guess evaluation: how an answer compares with the round's secret
+  evaluateGuess: (round: Confession, guess: string) => GuessMatch;
+  // Answering: the command players answer the mode's rounds with, and what an answer does.
+  // scoreGuess records it on the round and scores it if that settles the round; the caller
+  // ends the round when the outcome says so.
+  guessCommand: string;
+  // What a player is told when they answer one of the mode's rounds with another command ({id})
+  wrongCommandKey: MessageKey;
+  scoreGuess: (state: GameState, round: Confession, guess: string, guesser: PlayerIdentity, rules: GuessRules, now: Date) => GuessOutcome;
+  // Reveal and scoring: scores an active round whose time ran out, or that an admin revealed,
+  // and says how it ended. The caller ends the round with the returned status.
+  finishRound: (state: GameState, round: Confession, rounds: RoundConfig, reason: "timeout" | "reveal") => RoundEnd;
+};
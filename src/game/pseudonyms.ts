@@ -0,0 +1,116 @@
+import type { Sealer } from "../helpers/sealer.js";
+import { isSameString } from "../helpers/utils.js";
+import type { GameStore, Pseudonym } from "../store/index.js";
+
+export type ShhConfig = {
+  // How long a /shh sender keeps the same pseudonym
+  sessionMs: number;
+  // Whether admins may look up who is behind a pseudonym with /unmask
+  revealToAdmins: boolean;
+};
+
+export const DEFAULT_SHH_CONFIG: ShhConfig = {
+  sessionMs: 60 * 60_000,
+  revealToAdmins: false,
+};
+
+// Reads SHH_SESSION_MINUTES and SHH_REVEAL_TO_ADMINS ("true" to allow /unmask), falling back to `base`
+export function getShhConfigFromEnv(base: ShhConfig = DEFAULT_SHH_CONFIG): ShhConfig {
+  const { SHH_SESSION_MINUTES, SHH_REVEAL_TO_ADMINS } = process.env;
+  let sessionMs = base.sessionMs;
+  if (SHH_SESSION_MINUTES) {
+    const minutes = Number(SHH_SESSION_MINUTES);
+    if (!Number.isFinite(minutes) || minutes < 1) {
+      throw new Error(`Invalid SHH_SESSION_MINUTES "${SHH_SESSION_MINUTES}". Expected a number of minutes of 1 or more`);
+    }
+    sessionMs = minutes * 60_000;
+  }
+  return {
+    sessionMs,
+    revealToAdmins: SHH_REVEAL_TO_ADMINS ? SHH_REVEAL_TO_ADMINS === "true" : base.revealToAdmins,
+  };
+}
+
+const PSEUDONYM_WORDS = [
+  "Pepper",
+  "Poblano",
+  "Habanero",
+  "Chipotle",
+  "Cayenne",
+  "Paprika",
+  "Wasabi",
+  "Sriracha",
+  "Ginger",
+  "Chili",
+  "Harissa",
+  "Serrano",
+];
+
+// Expired pseudonyms are kept this long so admins can still look into what was said
+const PSEUDONYM_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+// Helper to find whose pseudonym it is; values sealed with an old key can't be read
+const openInboxId = (sealer: Sealer, pseudonym: Pseudonym) => {
+  try {
+    return sealer.open(pseudonym.sealedInboxId);
+  } catch {
+    return undefined;
+  }
+};
+
+const isActive = (pseudonym: Pseudonym, now: Date) => new Date(pseudonym.expiresAt).getTime() > now.getTime();
+
+// The sender's pseudonym for the current session, starting a new session if they don't have one
+export async function getOrCreatePseudonym(
+  { store, sealer, shh }: { store: GameStore; sealer: Sealer; shh: ShhConfig },
+  inboxId: string,
+  now: Date
+): Promise<Pseudonym> {
+  return store.update((gameData) => {
+    gameData.pseudonyms = gameData.pseudonyms.filter(
+      (p) => new Date(p.expiresAt).getTime() + PSEUDONYM_RETENTION_MS > now.getTime()
+    );
+    const current = gameData.pseudonyms.find(
+      (p) => isActive(p, now) && isSameString(openInboxId(sealer, p), inboxId)
+    );
+    if (current) {
+      return current;
+    }
+
+    const number = gameData.nextPseudonymNumber++;
+    const word = PSEUDONYM_WORDS[Math.floor(Math.random() * PSEUDONYM_WORDS.length)];
+    const pseudonym: Pseudonym = {
+      number,
+      word,
+      name: `Anon ${word} #${number}`,
+      sealedInboxId: sealer.seal(inboxId.toLowerCase()),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + shh.sessionMs).toISOString(),
+    };
+    gameData.pseudonyms.push(pseudonym);
+    return pseudonym;
+  });
+}
+
+// Splits "Anon Pepper #3 see you there" into the pseudonym's number, the word if one was given,
+// and the rest. "Pepper #3" and "#3" work too.
+export function parsePseudonym(text: string): { number: number; word?: string; rest: string } | undefined {
+  const match = text.trim().match(/^(?:anon\s+)?(?:(\p{L}+)\s*)?#(\d+)(?:\s+([\s\S]*))?$/iu);
+  if (!match) return undefined;
+  return { word: match[1], number: Number(match[2]), rest: (match[3] ?? "").trim() };
+}
+
+// Who is behind a pseudonym. Only sessions that haven't ended count, unless `includeExpired`.
+export async function findPseudonymOwner(
+  { store, sealer }: { store: GameStore; sealer: Sealer },
+  { number, word }: { number: number; word?: string },
+  now: Date,
+  { includeExpired = false } = {}
+): Promise<{ pseudonym: Pseudonym; inboxId: string } | undefined> {
+  const gameData = await store.read();
+  const pseudonym = gameData.pseudonyms.find(
+    (p) => p.number === number && (!word || isSameString(p.word, word)) && (includeExpired || isActive(p, now))
+  );
+  const inboxId = pseudonym && openInboxId(sealer, pseudonym);
+  return pseudonym && inboxId ? { pseudonym, inboxId } : undefined;
+}
@@ -0,0 +1,64 @@
+import { isSameString } from "../helpers/utils.js";
+import type { Translate } from "../messages/index.js";
+import type { Confession, GameState, GameStore } from "../store/index.js";
+
+// Reactions on a confession that count as a vote for the spiciest one
+export const SPICY_REACTIONS = ["🌶️", "🌶", "🔥"];
+
+// Remembers a group message that shows a confession, so replies and reactions to it can be
+// traced back to the confession
+export async function recordConfessionMessage(store: GameStore, confessionId: number, messageId: string) {
+  await store.update((gameData) => {
+    const confession = gameData.questions.find((q) => q.id === confessionId);
+    if (confession) {
+      confession.messageIds = [...(confession.messageIds ?? []), messageId];
+    }
+  });
+}
+
+export function findConfessionByMessageId(state: GameState, messageId: string) {
+  return state.questions.find((q) => q.messageIds?.includes(messageId));
+}
+
+// Counts or uncounts a player's spicy vote for the confession behind `messageId`. Each player
+// gets one vote per confession. Returns the confession if its tally changed.
+export async function recordSpicyReaction(
+  store: GameStore,
+  { messageId, inboxId, emoji, removed }: { messageId: string; inboxId: string; emoji: string; removed: boolean }
+): Promise<Confession | undefined> {
+  if (!SPICY_REACTIONS.includes(emoji)) {
+    return undefined;
+  }
+  return store.update((gameData) => {
+    const confession = findConfessionByMessageId(gameData, messageId);
+    if (!confession) return undefined;
+    const votes = confession.spicyVotes ?? [];
+    const hasVoted = votes.some((voter) => isSameString(voter, inboxId));
+    if (removed === !hasVoted) return undefined;
+    confession.spicyVotes = removed ? votes.filter((voter) => !isSameString(voter, inboxId)) : [...votes, inboxId];
+    return confession;
+  });
+}
+
+// Confessions with the most spicy votes, most first; ties go to the older confession
+export function getSpiciestConfessions(state: GameState, size: number) {
+  return state.questions
+    .filter((q) => (q.spicyVotes?.length ?? 0) > 0)
+    .sort((a, b) => (b.spicyVotes?.length ?? 0) - (a.spicyVotes?.length ?? 0) || a.id - b.id)
+    .slice(0, size);
+}
+
+export function formatSpiciest(confessions: Confession[], t: Translate) {
+  if (confessions.length === 0) {
+    return `${t("spiciest.title")}\n\n${t("spiciest.none")}`;
+  }
+  const lines = confessions.map((confession, i) =>
+    t("spiciest.line", {
+      position: `${i + 1}.`,
+      id: confession.id,
+      question: confession.question,
+      votes: confession.spicyVotes?.length ?? 0,
+    })
+  );
+  return `${t("spiciest.title")}\n\n${lines.join("\n")}`;
+}
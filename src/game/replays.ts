@@ -0,0 +1,23 @@
+import type { GameState, GameStore } from "../store/index.js";
+
+// How many message IDs are kept; far more than catch-up after a restart goes back over
+const MAX_ACTION_MESSAGE_IDS = 1000;
+
+// Notes, within the update that applies it, that a message's one-off effect (a hint, a reset,
+// a relayed /shh...) has been applied. Returns false if it already was, when the bot stopped
+// before marking the message handled and catch-up brought it back.
+export function recordMessageAction(state: GameState, messageId: string) {
+  if (state.actionMessageIds.includes(messageId)) {
+    return false;
+  }
+  state.actionMessageIds.push(messageId);
+  if (state.actionMessageIds.length > MAX_ACTION_MESSAGE_IDS) {
+    state.actionMessageIds.splice(0, state.actionMessageIds.length - MAX_ACTION_MESSAGE_IDS);
+  }
+  return true;
+}
+
+// For an effect that's only a message, e.g. an announcement: claims it before it's sent, so a
+// bot that stops halfway drops the message rather than posting it twice
+export const claimMessageAction = (store: GameStore, messageId: string) =>
+  store.update((state) => recordMessageAction(state, messageId));
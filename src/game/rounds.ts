@@ -0,0 +1,107 @@
+import type { Confession, ConfessionStatus, GameModeId, GameState } from "../store/index.js";
+
+export type RoundConfig = {
+  // How long a confession stays up for guessing; 0 disables the timer
+  durationMs: number;
+  // How long before the end the group gets a reminder; 0 disables it
+  reminderMs: number;
+  // What happens when time runs out: show who confessed, or keep them anonymous
+  timeoutAction: "reveal" | "expire";
+  // How many confessions can be up for guessing at the same time
+  maxOpen: number;
+};
+
+export const DEFAULT_ROUND_CONFIG: RoundConfig = {
+  durationMs: 30 * 60 * 1000,
+  reminderMs: 5 * 60 * 1000,
+  timeoutAction: "expire",
+  maxOpen: 1,
+};
+
+const readMinutes = (name: string, fallbackMs: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallbackMs;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${raw}". Expected a number of minutes of 0 or more`);
+  }
+  return value * 60 * 1000;
+};
+
+// Reads ROUND_DURATION_MINUTES, ROUND_REMINDER_MINUTES, ROUND_TIMEOUT_ACTION ("expire" or "reveal")
+// and MAX_OPEN_CONFESSIONS, falling back to `base`
+export function getRoundConfigFromEnv(base: RoundConfig = DEFAULT_ROUND_CONFIG): RoundConfig {
+  const timeoutAction = process.env.ROUND_TIMEOUT_ACTION || base.timeoutAction;
+  if (timeoutAction !== "reveal" && timeoutAction !== "expire") {
+    throw new Error(`Invalid ROUND_TIMEOUT_ACTION "${timeoutAction}". Expected one of: expire, reveal`);
+  }
+  const maxOpen = Number(process.env.MAX_OPEN_CONFESSIONS || base.maxOpen);
+  if (!Number.isInteger(maxOpen) || maxOpen < 1) {
+    throw new Error(`Invalid MAX_OPEN_CONFESSIONS "${process.env.MAX_OPEN_CONFESSIONS}". Expected a whole number of 1 or more`);
+  }
+  return {
+    durationMs: readMinutes("ROUND_DURATION_MINUTES", base.durationMs),
+    reminderMs: readMinutes("ROUND_REMINDER_MINUTES", base.reminderMs),
+    timeoutAction,
+    maxOpen,
+  };
+}
+
+// Confessions up for guessing, oldest first
+export function getActiveConfessions(state: GameState) {
+  return state.questions.filter((q) => q.status === "active");
+}
+
+export const getRoundMode = (round: Confession): GameModeId => round.mode ?? "confessions";
+
+// The active round with the given ID, or the oldest active one when no ID is given. With a
+// mode, only rounds of that game count.
+export function getActiveConfession(state: GameState, id?: number, mode?: GameModeId) {
+  return state.questions.find(
+    (q) => q.status === "active" && (id === undefined || q.id === id) && (mode === undefined || getRoundMode(q) === mode)
+  );
+}
+
+// Waiting confessions, oldest first
+export function getQueuedConfessions(state: GameState) {
+  return state.questions.filter((q) => q.status === "queued");
+}
+
+// 1-based place in the queue, or 0 for a confession that isn't waiting
+export function getQueuePosition(state: GameState, confession: Confession) {
+  return getQueuedConfessions(state).findIndex((q) => q.id === confession.id) + 1;
+}
+
+export function isFinished(confession: Confession) {
+  return confession.status !== "queued" && confession.status !== "active";
+}
+
+// Makes the oldest queued confession active if there's a free slot for it.
+// Returns the confession that was activated, if any.
+export function activateNextConfession(state: GameState, config: RoundConfig, now: Date) {
+  if (getActiveConfessions(state).length >= config.maxOpen) {
+    return undefined;
+  }
+  const next = getQueuedConfessions(state)[0];
+  if (!next) {
+    return undefined;
+  }
+  next.status = "active";
+  next.activatedAt = now.toISOString();
+  next.endsAt = config.durationMs > 0 ? new Date(now.getTime() + config.durationMs).toISOString() : undefined;
+  next.reminderSent = false;
+  return next;
+}
+
+// Ends an active confession and promotes the next one. Returns the newly active confession, if any.
+export function endRound(
+  state: GameState,
+  confession: Confession,
+  status: Exclude<ConfessionStatus, "queued" | "active">,
+  config: RoundConfig,
+  now: Date
+) {
+  confession.status = status;
+  confession.endedAt = now.toISOString();
+  return activateNextConfession(state, config, now);
+}
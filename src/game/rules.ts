@@ -0,0 +1,56 @@
+// Limits that keep a single player from dominating a round
+export type GuessRules = {
+  // Wrong guesses (from everyone) before the confessor wins the round
+  maxIncorrectGuesses: number;
+  // Guesses each player gets per confession
+  attemptsPerPlayer: number;
+  // Minimum time between two guesses from the same player
+  cooldownMs: number;
+  // Wrong-guess counts at which a hint is posted automatically, e.g. [2, 4]
+  hintThresholds: number[];
+  // Whether a near miss ("so close!") counts towards the round's wrong-guess limit
+  countNearMisses: boolean;
+};
+
+export const DEFAULT_GUESS_RULES: GuessRules = {
+  maxIncorrectGuesses: 5,
+  attemptsPerPlayer: 3,
+  cooldownMs: 30_000,
+  hintThresholds: [2, 4],
+  countNearMisses: false,
+};
+
+const readWholeNumber = (name: string, fallback: number, min: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name} "${raw}". Expected a whole number of ${min} or more`);
+  }
+  return value;
+};
+
+// Reads a comma-separated list of whole numbers, e.g. "2,4"
+const readIntList = (name: string, fallback: number[]) => {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const values = raw.split(",").map((part) => part.trim()).filter(Boolean).map(Number);
+  if (values.some((value) => !Number.isInteger(value) || value < 1)) {
+    throw new Error(`Invalid ${name} "${raw}". Expected comma-separated whole numbers of 1 or more`);
+  }
+  return values.sort((a, b) => a - b);
+};
+
+// Reads MAX_WRONG_GUESSES, GUESS_ATTEMPTS_PER_PLAYER, GUESS_COOLDOWN_SECONDS,
+// HINT_AFTER_WRONG_GUESSES and GUESS_COUNT_NEAR_MISSES, falling back to `base`
+export function getGuessRulesFromEnv(base: GuessRules = DEFAULT_GUESS_RULES): GuessRules {
+  const countNearMisses = process.env.GUESS_COUNT_NEAR_MISSES;
+  return {
+    maxIncorrectGuesses: readWholeNumber("MAX_WRONG_GUESSES", base.maxIncorrectGuesses, 1),
+    // With no attempts nobody could ever guess
+    attemptsPerPlayer: readWholeNumber("GUESS_ATTEMPTS_PER_PLAYER", base.attemptsPerPlayer, 1),
+    cooldownMs: readWholeNumber("GUESS_COOLDOWN_SECONDS", base.cooldownMs / 1000, 0) * 1000,
+    hintThresholds: readIntList("HINT_AFTER_WRONG_GUESSES", base.hintThresholds),
+    countNearMisses: countNearMisses ? countNearMisses === "true" : base.countNearMisses,
+  };
+}
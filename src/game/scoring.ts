@@ -0,0 +1,161 @@
+import { getTruncatedAddress, isSameString } from "../helpers/utils.js";
+import type { Translate } from "../messages/index.js";
+import type { Confession, GameState, PlayerStats } from "../store/index.js";
+
+// Who did something, as far as we know at the time
+export type PlayerIdentity = {
+  inboxId: string;
+  address?: string;
+  name?: string;
+};
+
+export const SCORING = {
+  // A correct guess with no wrong guesses before it
+  correctGuess: 10,
+  // Taken off the correct-guess points for every wrong guess on the confession
+  wrongGuessPenalty: 2,
+  // Taken off the correct-guess points for every hint shown
+  hintPenalty: 2,
+  // A correct guess is always worth at least this much
+  minCorrectGuess: 2,
+  // The confessor, when nobody guesses them before the wrong-guess limit
+  survivedConfession: 5,
+  // Two Truths and a Lie: a /lie vote for the lie
+  spottedLie: 5,
+  // Two Truths and a Lie: the teller, for every vote their lie fooled
+  fooledVoter: 2,
+};
+
+export const DEFAULT_LEADERBOARD_SIZE = 10;
+
+export const createPlayerStats = (inboxId: string): PlayerStats => ({
+  inboxId,
+  points: 0,
+  correctGuesses: 0,
+  wrongGuesses: 0,
+});
+
+// Returns the player's stats, creating an empty record the first time we see them
+function getPlayer(state: GameState, player: PlayerIdentity): PlayerStats {
+  const stats = (state.players[player.inboxId] ??= createPlayerStats(player.inboxId));
+  stats.address = player.address ?? stats.address;
+  stats.name = player.name ?? stats.name;
+  return stats;
+}
+
+export function getCorrectGuessPoints(incorrectGuesses: number, hintsRevealed: number = 0) {
+  return Math.max(
+    SCORING.minCorrectGuess,
+    SCORING.correctGuess - incorrectGuesses * SCORING.wrongGuessPenalty - hintsRevealed * SCORING.hintPenalty
+  );
+}
+
+// How many rounds the player has submitted and how many of them survived. Counted from the
+// rounds themselves, whose submitters are sealed at rest, rather than kept with the player's
+// public record, so it can't give away who is behind a confession.
+export function getConfessionRecord(state: GameState, inboxId: string) {
+  const own = state.questions.filter((q) => isSameString(q.confessorInboxId, inboxId));
+  return { confessions: own.length, survived: own.filter((q) => q.survived).length };
+}
+
+export function recordWrongGuess(state: GameState, guesser: PlayerIdentity) {
+  getPlayer(state, guesser).wrongGuesses++;
+}
+
+// Returns the points awarded to the guesser
+export function recordCorrectGuess(state: GameState, guesser: PlayerIdentity, confession: Confession) {
+  const points = getCorrectGuessPoints(confession.incorrectGuesses, confession.hintsRevealed);
+  const stats = getPlayer(state, guesser);
+  stats.correctGuesses++;
+  stats.points += points;
+  return points;
+}
+
+// Returns the points awarded to the confessor
+export function recordSurvivedConfession(state: GameState, confession: Confession) {
+  const stats = getPlayer(state, {
+    inboxId: confession.confessorInboxId,
+    address: confession.confessorAddress,
+    name: confession.answer,
+  });
+  confession.survived = true;
+  stats.points += SCORING.survivedConfession;
+  return SCORING.survivedConfession;
+}
+
+// Scores one /lie vote when the round ends. Returns the points awarded to the voter.
+export function recordLieVote(state: GameState, voter: PlayerIdentity, spotted: boolean) {
+  const stats = getPlayer(state, voter);
+  if (!spotted) {
+    stats.wrongGuesses++;
+    return 0;
+  }
+  stats.correctGuesses++;
+  stats.points += SCORING.spottedLie;
+  return SCORING.spottedLie;
+}
+
+// Returns the points awarded to a Two Truths and a Lie teller. Nobody spotting the lie counts
+// as surviving, like a confession nobody guessed.
+export function recordFooledVoters(state: GameState, round: Confession, fooled: number, spotted: number) {
+  const stats = getPlayer(state, {
+    inboxId: round.confessorInboxId,
+    address: round.confessorAddress,
+    name: round.answer,
+  });
+  if (fooled > 0 && spotted === 0) {
+    round.survived = true;
+  }
+  const points = fooled * SCORING.fooledVoter;
+  stats.points += points;
+  return points;
+}
+
+export function getLeaderboard(state: GameState, size: number = DEFAULT_LEADERBOARD_SIZE) {
+  return Object.values(state.players)
+    .filter((player) => player.points > 0)
+    .sort((a, b) => b.points - a.points || b.correctGuesses - a.correctGuesses)
+    .slice(0, size);
+}
+
+// Finds a player by their name, full address or truncated address
+export function findPlayer(state: GameState, query: string) {
+  const normalizedQuery = query.replace("@", "").trim();
+  return Object.values(state.players).find((player) =>
+    [player.name, player.address, player.address && getTruncatedAddress(player.address)].some((candidate) =>
+      candidate ? isSameString(candidate, normalizedQuery) : false
+    )
+  );
+}
+
+export function formatPlayerName(player: PlayerIdentity) {
+  return player.name ?? (player.address ? getTruncatedAddress(player.address) : getTruncatedAddress(player.inboxId));
+}
+
+export function formatLeaderboard(players: PlayerStats[], t: Translate) {
+  if (players.length === 0) {
+    return `${t("leaderboard.title")}\n\n${t("leaderboard.empty")}`;
+  }
+  const medals = ["🥇", "🥈", "🥉"];
+  const lines = players.map((player, i) =>
+    t("leaderboard.line", { position: medals[i] ?? `${i + 1}.`, name: formatPlayerName(player), points: player.points })
+  );
+  return `${t("leaderboard.title")}\n\n${lines.join("\n")}`;
+}
+
+// Confession counts are only given for the player's own stats
+export function formatStats(
+  player: PlayerStats,
+  rank: number | undefined,
+  t: Translate,
+  confessions?: { confessions: number; survived: number }
+) {
+  const stats = t("stats.format", {
+    name: formatPlayerName(player),
+    points: player.points,
+    rank: rank ? t("stats.rank", { rank }) : "",
+    correct: player.correctGuesses,
+    wrong: player.wrongGuesses,
+  });
+  return confessions ? stats + t("stats.confessions", confessions) : stats;
+}
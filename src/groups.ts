@@ -0,0 +1,91 @@
+import type { BotServices } from "./commands/index.js";
+import { MAIN_GROUP_ID, type GroupConfig } from "./config.js";
+import { createGameEvents } from "./game/events.js";
+import { loadAllowlist } from "./game/membership.js";
+import type { AuditLog } from "./helpers/audit.js";
+import type { BotClient, BotGroup } from "./helpers/client.js";
+import { isSameString } from "./helpers/utils.js";
+import type { NameResolver } from "./helpers/names.js";
+import type { Sealer } from "./helpers/sealer.js";
+import { createMessages } from "./messages/index.js";
+import { findOrCreateConfessGroup } from "./offsite.js";
+import { createGameStore } from "./store/index.js";
+
+// One confession group the bot runs, with its own settings and game state
+export type GroupGame = {
+  // The group's id from the config file, e.g. "defi"
+  id: string;
+  group: BotGroup;
+  services: BotServices;
+};
+
+// Helper to name a group's game state files. The main group keeps the names from before there
+// could be several groups, so its state survives the upgrade.
+export const getGameStoreName = (id: string) => (id === MAIN_GROUP_ID ? "game" : `game-${id}`);
+
+// Finds or creates the chat for every configured group and sets up its game. Each game's store
+// remembers its chat's ID. Names, the audit log and the sealer are shared; audit entries say
+// which group they're about.
+export async function createGroupGames(
+  client: BotClient,
+  env: string,
+  groups: GroupConfig[],
+  { names, audit, sealer }: { names: NameResolver; audit: AuditLog; sealer: Sealer }
+): Promise<GroupGame[]> {
+  const games: GroupGame[] = [];
+  for (const config of groups) {
+    const store = await createGameStore(env, undefined, getGameStoreName(config.id), sealer);
+    const { groupConversationId, doNotAddInboxIds } = await store.read();
+    const group = await findOrCreateConfessGroup(client, config.group, config.adminAddresses, {
+      savedGroupId: groupConversationId,
+      doNotAddInboxIds,
+    });
+    if (group.id !== groupConversationId) {
+      await store.update((state) => {
+        state.groupConversationId = group.id;
+      });
+    }
+    const { allowlistPath } = config.membership;
+    games.push({
+      id: config.id,
+      group,
+      services: {
+        store,
+        names,
+        rules: config.rules,
+        rounds: config.rounds,
+        moderation: config.moderation,
+        shh: config.shh,
+        adminAddresses: config.adminAddresses,
+        allowlist: allowlistPath ? await loadAllowlist(allowlistPath) : undefined,
+        audit: { record: (entry) => audit.record({ ...entry, group: config.id }) },
+        sealer,
+        events: createGameEvents(),
+        messages: createMessages({ defaultLocale: config.group.locale, overrides: config.messages }),
+        now: () => new Date(),
+      },
+    });
+  }
+  return games;
+}
+
+// The game for a group chat, if it's one of ours
+export const findGroupGameByConversation = (games: GroupGame[], conversationId: string) =>
+  games.find((game) => game.group.id === conversationId);
+
+// Matches what a player typed, e.g. "DeFi" or the group's full name, to a game
+export const findGroupGameByName = (games: GroupGame[], text: string) =>
+  games.find((game) => isSameString(game.id, text.trim()) || isSameString(game.group.name, text.trim()));
+
+// The game a player's DMs go to: the one they picked with /join, or else the first
+export async function getCurrentGroupGame(games: GroupGame[], inboxId: string): Promise<GroupGame> {
+  const { currentGroups } = await games[0].services.store.read();
+  const id = currentGroups[inboxId.toLowerCase()];
+  return games.find((game) => game.id === id) ?? games[0];
+}
+
+export async function setCurrentGroupGame(games: GroupGame[], inboxId: string, game: GroupGame) {
+  await games[0].services.store.update((state) => {
+    state.currentGroups[inboxId.toLowerCase()] = game.id;
+  });
+}
@@ -0,0 +1,30 @@
+import fs from "fs/promises";
+import { logger } from "./logger.js";
+
+export type AuditEntry = {
+  timestamp: string;
+  adminInboxId: string;
+  action: string;
+  target?: string;
+  details?: string;
+  // The group the action was about, when the bot runs several
+  group?: string;
+};
+
+export type AuditLog = {
+  record: (entry: Omit<AuditEntry, "timestamp">) => Promise<void>;
+};
+
+// Appends one JSON line per admin action. The file is never rewritten, so past entries
+// survive a /reset.
+export const createAuditLog = (filePath: string): AuditLog => ({
+  record: async (entry) => {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+    logger.info(`Admin action: ${entry.action}`, { kind: "audit", ...entry });
+    try {
+      await fs.appendFile(filePath, line + "\n");
+    } catch (error) {
+      logger.error(`Failed to write audit log: ${error}`);
+    }
+  },
+});
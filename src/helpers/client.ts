@@ -1,10 +1,82 @@
-import { IdentifierKind, type Signer } from "@xmtp/node-sdk";
+import type { ReactionCodec } from "@xmtp/content-type-reaction";
+import type { ReplyCodec } from "@xmtp/content-type-reply";
+import {
+  IdentifierKind,
+  type Client,
+  type Conversation,
+  type Conversations,
+  type DecodedMessage,
+  type Dm,
+  type ExtractCodecContentTypes,
+  type Group,
+  type Signer,
+} from "@xmtp/node-sdk";
 import { fromString } from "uint8arrays";
 import { createWalletClient, http } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { base } from "viem/chains";
 import fs from "fs";
 
+// What the bot's client sends and receives: text and group updates, plus reactions and replies
+// from the codecs it's created with
+export type BotContent = ExtractCodecContentTypes<[ReactionCodec, ReplyCodec]>;
+
+// The parts of the XMTP SDK the bot uses, picked from its classes. The SDK's client fits these
+// as is, and so do the in-memory stand-ins in src/testing, checked against the same signatures.
+type GroupMember = Awaited<ReturnType<Group["members"]>>[number];
+type InboxState = Awaited<ReturnType<Client["preferences"]["inboxStateFromInboxIds"]>>[number];
+
+export type BotMessage = Pick<DecodedMessage<BotContent>, "id" | "conversationId" | "senderInboxId" | "content" | "sentAt" | "sentAtNs"> & {
+  contentType?: Pick<NonNullable<DecodedMessage["contentType"]>, "typeId">;
+};
+
+type BotConversationBase = Pick<Conversation<BotContent>, "id" | "send" | "sync"> & {
+  members(): Promise<Pick<GroupMember, "inboxId" | "accountIdentifiers">[]>;
+  messages(options?: Parameters<Conversation["messages"]>[0]): Promise<BotMessage[]>;
+};
+
+export type BotDm = BotConversationBase & Pick<Dm<BotContent>, "peerInboxId">;
+
+export type BotGroup = BotConversationBase &
+  Pick<
+    Group<BotContent>,
+    | "name"
+    | "description"
+    | "imageUrl"
+    | "permissions"
+    | "superAdmins"
+    | "updateName"
+    | "updateDescription"
+    | "updateImageUrl"
+    | "updatePermission"
+    | "addMembers"
+    | "removeMembers"
+    | "addMembersByIdentifiers"
+    | "removeMembersByIdentifiers"
+    | "addSuperAdmin"
+  >;
+
+export type BotConversation = BotGroup | BotDm;
+
+// The live message feed, read with for await. The SDK's stream isn't a standard async iterator:
+// it settles done and value together, and value may be missing.
+export type BotMessageStream = {
+  [Symbol.asyncIterator](): { next(): Promise<{ done?: boolean; value: BotMessage | undefined }> };
+};
+
+export type BotClient = Pick<Client<BotContent>, "inboxId" | "getInboxIdByIdentifier"> & {
+  conversations: Pick<Conversations<BotContent>, "sync" | "syncAll"> & {
+    list(): Promise<BotConversation[]>;
+    getConversationById(id: string): Promise<BotConversation | undefined>;
+    getDmByInboxId(inboxId: string): BotDm | undefined;
+    newDm(inboxId: string): Promise<BotDm>;
+    newGroup(inboxIds: string[], options?: Parameters<Conversations["newGroup"]>[1]): Promise<BotGroup>;
+    streamAllMessages(): Promise<BotMessageStream>;
+  };
+  preferences: {
+    inboxStateFromInboxIds(inboxIds: string[], refreshFromNetwork?: boolean): Promise<Pick<InboxState, "identifiers">[]>;
+  };
+};
 
 export const createSigner = (key: `0x${string}`): Signer => {
   const account = privateKeyToAccount(key);
@@ -27,14 +99,23 @@ export const getEncryptionKeyFromHex = (hex: string) => {
   return fromString(hex, "hex");
 }; 
 
-export const getDbPath = (env: string, suffix: string = "xmtp") => {
+// Returns the directory that holds everything the bot persists, creating it if needed
+const getVolumePath = () => {
   //Checks if the environment is a Railway deployment
   const volumePath = process.env.RAILWAY_VOLUME_MOUNT_PATH ?? ".data/xmtp";
   // Create database directory if it doesn't exist
   if (!fs.existsSync(volumePath)) {
     fs.mkdirSync(volumePath, { recursive: true });
   }
-  const dbPath = `${volumePath}/${env}-${suffix}.db3`;
+  return volumePath;
+};
+
+export const getDbPath = (env: string, suffix: string = "xmtp") => {
+  const dbPath = `${getVolumePath()}/${env}-${suffix}.db3`;
 
   return dbPath;
-}; 
\ No newline at end of file
+};
+
+export const getDataFilePath = (env: string, fileName: string) => {
+  return `${getVolumePath()}/${env}-${fileName}`;
+};
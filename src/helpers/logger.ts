@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields added to every line logged while handling one message, e.g. its ID and the command
+const context = new AsyncLocalStorage<LogFields>();
+
+let config: { level: LogLevel; json: boolean } | undefined;
+
+// Reads LOG_LEVEL (debug, info, warn or error; "info" by default) and LOG_FORMAT ("text" or "json")
+// on first use. A bad LOG_LEVEL falls back to "info" rather than taking logging down with it.
+function getLogConfig() {
+  if (!config) {
+    const level = (process.env.LOG_LEVEL ?? "info").toLowerCase();
+    const valid = level in LEVELS;
+    config = { level: valid ? (level as LogLevel) : "info", json: process.env.LOG_FORMAT === "json" };
+    if (!valid) {
+      write("warn", `Invalid LOG_LEVEL "${process.env.LOG_LEVEL}", using "info". Expected one of: debug, info, warn, error`);
+    }
+  }
+  return config;
+}
+
+// Runs fn with extra fields attached to everything it logs, including from awaited calls
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+// Adds fields to the current log context, e.g. the command once it's been parsed
+export function addLogContext(fields: LogFields) {
+  const store = context.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  const config = getLogConfig();
+  if (LEVELS[level] < LEVELS[config.level]) {
+    return;
+  }
+  const time = new Date().toISOString();
+  const allFields = Object.entries({ ...context.getStore(), ...fields }).filter(([, value]) => value !== undefined);
+  const output = level === "warn" || level === "error" ? console.error : console.log;
+
+  if (config.json) {
+    output(JSON.stringify({ time, level, msg: message, ...Object.fromEntries(allFields) }));
+    return;
+  }
+  const suffix = allFields.map(([key, value]) => ` ${key}=${value}`).join("");
+  output(`[${time.replace("T", " ").substring(0, 19)}] [${level.toUpperCase()}] ${message}${suffix}`);
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
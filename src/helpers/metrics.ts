@@ -0,0 +1,60 @@
+// Process-wide counters, served in the Prometheus text format at /metrics on the status server
+
+type Labels = Record<string, string>;
+
+export type Counter = {
+  inc: (labels?: Labels, by?: number) => void;
+};
+
+type CounterEntry = {
+  name: string;
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+};
+
+const counters: CounterEntry[] = [];
+
+// Helper to turn labels into a stable key and into Prometheus label syntax
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return "";
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(",")}}`;
+};
+
+export function createCounter(name: string, help: string): Counter {
+  const entry: CounterEntry = { name, help, values: new Map() };
+  counters.push(entry);
+  return {
+    inc: (labels = {}, by = 1) => {
+      const key = formatLabels(labels);
+      const current = entry.values.get(key) ?? { labels, value: 0 };
+      current.value += by;
+      entry.values.set(key, current);
+    },
+  };
+}
+
+export const metrics = {
+  commands: createCounter("confession_bot_commands_total", "Commands handled, by command"),
+  guesses: createCounter("confession_bot_guesses_total", "Guesses checked, by result (correct, wrong or close)"),
+  confessions: createCounter("confession_bot_confessions_total", "Confessions saved"),
+  memberAdds: createCounter("confession_bot_member_adds_total", "Members added to the group"),
+  sendFailures: createCounter("confession_bot_send_failures_total", "Messages that failed to send, by kind (reply, reaction or dm)"),
+  streamRestarts: createCounter("confession_bot_stream_restarts_total", "Times the message stream was reconnected after failing or ending"),
+};
+
+export function formatMetrics() {
+  return counters
+    .map(({ name, help, values }) => {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+      if (values.size === 0) {
+        lines.push(`${name} 0`);
+      }
+      for (const [key, { value }] of values) {
+        lines.push(`${name}${key} ${value}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n") + "\n";
+}
@@ -0,0 +1,94 @@
+import fs from "fs/promises";
+import { createPublicClient, encodePacked, http, keccak256, namehash, parseAbi, type Address } from "viem";
+import { base, mainnet } from "viem/chains";
+import { logger } from "./logger.js";
+
+// Basenames L2 resolver on Base mainnet
+const BASENAME_L2_RESOLVER_ADDRESS = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD";
+const L2_RESOLVER_ABI = parseAbi(["function name(bytes32 node) view returns (string)"]);
+// How long a lookup result (including "no name") is reused before asking the chain again
+const NAME_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Turns an Ethereum address into a human-readable name, if it has one
+export type NameResolver = {
+  resolveName: (address: string) => Promise<string | undefined>;
+};
+
+// Reverse node for `address` under the ENSIP-11 coin type of Base, as used by Basenames
+const getBaseReverseNode = (address: string) => {
+  const coinType = (0x80000000 | base.id).toString(16).toUpperCase();
+  const addressNode = keccak256(address.toLowerCase().substring(2) as `0x${string}`, "hex");
+  return keccak256(
+    encodePacked(["bytes32", "bytes32"], [namehash(`${coinType}.reverse`), addressNode])
+  );
+};
+
+// Looks up the address's Basename on Base first, then falls back to its ENS primary name
+export const createOnchainNameResolver = (): NameResolver => {
+  const baseClient = createPublicClient({ chain: base, transport: http() });
+  const mainnetClient = createPublicClient({ chain: mainnet, transport: http() });
+  const cache = new Map<string, { name?: string; expiresAt: number }>();
+
+  const lookup = async (address: string) => {
+    try {
+      const basename = await baseClient.readContract({
+        address: BASENAME_L2_RESOLVER_ADDRESS,
+        abi: L2_RESOLVER_ABI,
+        functionName: "name",
+        args: [getBaseReverseNode(address)],
+      });
+      if (basename) return basename;
+    } catch (error) {
+      logger.error(`Basename lookup failed for ${address}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      return (await mainnetClient.getEnsName({ address: address as Address })) ?? undefined;
+    } catch (error) {
+      logger.error(`ENS lookup failed for ${address}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+
+  return {
+    resolveName: async (address) => {
+      const key = address.toLowerCase();
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.name;
+      }
+      const name = await lookup(key);
+      cache.set(key, { name, expiresAt: Date.now() + NAME_CACHE_TTL_MS });
+      return name;
+    },
+  };
+};
+
+// Resolves names from a fixed address -> name map. Used for offline tests and local runs.
+export const createFixtureNameResolver = (names: Record<string, string>): NameResolver => {
+  const byAddress = new Map(
+    Object.entries(names).map(([address, name]) => [address.toLowerCase(), name])
+  );
+  return {
+    resolveName: async (address) => byAddress.get(address.toLowerCase()),
+  };
+};
+
+// Picks the resolver from NAME_RESOLVER ("onchain" by default, or "fixture", which reads
+// the JSON map at NAME_FIXTURES_PATH)
+export async function createNameResolver(
+  kind: string = process.env.NAME_RESOLVER ?? "onchain"
+): Promise<NameResolver> {
+  if (kind === "onchain") {
+    return createOnchainNameResolver();
+  }
+  if (kind === "fixture") {
+    const fixturesPath = process.env.NAME_FIXTURES_PATH;
+    if (!fixturesPath) {
+      throw new Error("Missing environment variables: NAME_FIXTURES_PATH");
+    }
+    logger.info(`Using name fixtures from ${fixturesPath}`);
+    return createFixtureNameResolver(JSON.parse(await fs.readFile(fixturesPath, "utf-8")));
+  }
+  throw new Error(`Invalid NAME_RESOLVER "${kind}". Expected one of: onchain, fixture`);
+}
@@ -0,0 +1,35 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Encrypts small secrets kept with the game state, so the state file or database alone doesn't
+// give them away
+export type Sealer = {
+  seal: (text: string) => string;
+  // Throws if the value was sealed with another key or tampered with
+  open: (sealed: string) => string;
+};
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+// AES-256-GCM with a key derived from `secret`, so the same secret can also serve other uses.
+// Sealed values look like "<iv>.<auth tag>.<ciphertext>", each base64.
+export function createSealer(secret: string | Uint8Array): Sealer {
+  const key = createHash("sha256").update("confession-bot:sealer:").update(secret).digest();
+  return {
+    seal: (text) => {
+      const iv = randomBytes(IV_BYTES);
+      const cipher = createCipheriv(ALGORITHM, key, iv);
+      const encrypted = Buffer.concat([cipher.update(text, "utf-8"), cipher.final()]);
+      return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+    },
+    open: (sealed) => {
+      const [iv, tag, encrypted] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+      if (!iv || !tag || !encrypted) {
+        throw new Error("Malformed sealed value");
+      }
+      const decipher = createDecipheriv(ALGORITHM, key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf-8");
+    },
+  };
+}
@@ -1,5 +1,7 @@
-import { Client } from "@xmtp/node-sdk";
+import { IdentifierKind } from "@xmtp/node-sdk";
 import dotenv from "dotenv";
+import type { BotClient, BotConversation, BotDm } from "./client.js";
+import { metrics } from "./metrics.js";
 dotenv.config();
 
 export function validateEnvironment(requiredEnvVars: string[]) {
@@ -21,18 +23,11 @@ export function logAgentDetails(address: string, inboxId: string, env: string) {
   console.log(`Environment: ${env}`);
 }
 
-const timestamp = () =>
-  new Date().toISOString().replace("T", " ").substring(0, 19);
-
-export function log(message: string) {
-  console.log(`[${timestamp()}] [INFO] ${message}`);
-}
-
 export function isSameString(a?: string, b?: string) {
   return a?.toLowerCase() === b?.toLowerCase();
 }
 
-export async function getAddressFromXMTPIdentity(client: Client, inboxId: string) {
+export async function getAddressFromXMTPIdentity(client: BotClient, inboxId: string) {
   const preferences = await client.preferences.inboxStateFromInboxIds([inboxId], false);
   return preferences[0]?.identifiers[0]?.identifier.toLowerCase();
 }
@@ -40,3 +35,57 @@ export async function getAddressFromXMTPIdentity(client: Client, inboxId: string
 export function getTruncatedAddress(address: string) {
   return address.slice(0, 6) + "..." + address.slice(-4);
 }
+
+// Number of single-character edits needed to turn one string into the other
+export function getEditDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Sends a private message to an inbox, opening a DM with it if there isn't one yet
+export async function sendDirectMessage(client: BotClient, inboxId: string, text: string) {
+  try {
+    const dm = client.conversations.getDmByInboxId(inboxId) ?? (await client.conversations.newDm(inboxId));
+    await dm.send(text);
+  } catch (error) {
+    metrics.sendFailures.inc({ kind: "dm" });
+    throw error;
+  }
+}
+
+// DMs have a peer; groups don't. Checked by shape rather than class so stand-in clients work too.
+export function isDmConversation(conversation: BotConversation): conversation is BotDm {
+  return "peerInboxId" in conversation;
+}
+
+export function isEthereumAddress(value: string) {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+export function isWebUrl(value: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Accepts either an Ethereum address or an inbox ID and returns the inbox ID
+export async function resolveInboxId(client: BotClient, addressOrInboxId: string) {
+  if (!isEthereumAddress(addressOrInboxId)) {
+    return addressOrInboxId.toLowerCase();
+  }
+  const inboxId = await client.getInboxIdByIdentifier({
+    identifier: addressOrInboxId.toLowerCase(),
+    identifierKind: IdentifierKind.Ethereum,
+  });
+  return inboxId ?? undefined;
+}
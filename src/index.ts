@@ -3,10 +3,20 @@ import dotenv from "dotenv";
 dotenv.config();
 
 import { Client, type XmtpEnv } from "@xmtp/node-sdk";
-import { createSigner, getEncryptionKeyFromHex, getDbPath} from "./helpers/client.js";
-import { logAgentDetails, validateEnvironment, log } from "./helpers/utils.js";
-import { findOrCreateConfessGroup } from "./offsite.js";
-import { listenForMessages } from "./stream.js";
+import { ReactionCodec } from "@xmtp/content-type-reaction";
+import { ReplyCodec } from "@xmtp/content-type-reply";
+import { createSigner, getEncryptionKeyFromHex, getDbPath, getDataFilePath, type BotClient } from "./helpers/client.js";
+import { logAgentDetails, validateEnvironment } from "./helpers/utils.js";
+import { logger } from "./helpers/logger.js";
+import { createStreamHealth, listenForMessages } from "./stream.js";
+import { createAuditLog } from "./helpers/audit.js";
+import { createNameResolver } from "./helpers/names.js";
+import { createSealer } from "./helpers/sealer.js";
+import { startRoundTimers } from "./timers.js";
+import { getStatusServerConfigFromEnv, startStatusServer } from "./server.js";
+import { loadConfig, MAIN_GROUP_ID } from "./config.js";
+import { createGroupGames } from "./groups.js";
+import { migrateLegacyGameFile } from "./store/index.js";
 
 const { WALLET_KEY, ENCRYPTION_KEY, XMTP_ENV } = validateEnvironment([
   "WALLET_KEY",
@@ -15,33 +25,53 @@ const { WALLET_KEY, ENCRYPTION_KEY, XMTP_ENV } = validateEnvironment([
 ]);
 
 async function main() {
+  const config = await loadConfig();
   const signer = createSigner(WALLET_KEY as `0x${string}`);
   const encryptionKey = getEncryptionKeyFromHex(ENCRYPTION_KEY);
   const dbPath = getDbPath(XMTP_ENV);
-  log(`[INFO] Using database path: ${dbPath}`);
+  logger.info(`Using database path: ${dbPath}`);
+  const names = await createNameResolver();
+  const audit = createAuditLog(getDataFilePath(XMTP_ENV, "audit.jsonl"));
 
 
-  const client = await Client.create(signer, {
+  const client: BotClient = await Client.create(signer, {
     env: XMTP_ENV as XmtpEnv,
     dbEncryptionKey: encryptionKey,
     dbPath: dbPath,
+    // Players guess by replying to a confession and vote with reactions; the bot reacts to guesses
+    codecs: [new ReactionCodec(), new ReplyCodec()],
   });
   const identifier = await signer.getIdentifier();
   const address = identifier.identifier;
 
   logAgentDetails(address, client.inboxId, XMTP_ENV);
 
-  // Get or create the Base Summit groups
-  const confessGroup = await findOrCreateConfessGroup(client);
+  // Get or create each confession group, each with its own game
+  // Pseudonyms and who confessed what are sealed with a key derived from the database encryption key
+  const sealer = createSealer(encryptionKey);
+  const games = await createGroupGames(client, XMTP_ENV, config.groups, { names, audit, sealer });
+  // Older deploys kept confessions in src/game.json; move them into the main group's store
+  const mainGame = games.find((game) => game.id === MAIN_GROUP_ID) ?? games[0];
+  await migrateLegacyGameFile(mainGame.services.store);
 
-  log("Syncing conversations...");
+  logger.info("Syncing conversations...");
   await client.conversations.sync();
 
-  log("Listening for messages...");
-  await listenForMessages(client, confessGroup);
+  for (const { group, services } of games) {
+    startRoundTimers(client, group, services);
+  }
+
+  const health = createStreamHealth();
+  const statusServer = getStatusServerConfigFromEnv();
+  if (statusServer) {
+    startStatusServer(games, health, statusServer);
+  }
+
+  logger.info("Listening for messages...");
+  await listenForMessages(client, games, { health, backoff: config.streamBackoff });
 }
 
 main().catch((error) => {
-  log(`Fatal error: ${error}`);
+  logger.error(`Fatal error: ${error}`);
   process.exit(1);
 }); 
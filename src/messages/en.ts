@@ -0,0 +1,231 @@
+// Every message the bot sends, in English. This is the reference bundle: each key has to be
+// here, and other locales fall back to it for keys they leave out. {name} is replaced with
+// the value of the same name when the message is sent.
+export const en = {
+  // The language's own name, as shown by /lang
+  "lang.name": "English",
+  "lang.current": "I'm talking to you in {language}. Available: {available}\n\nSwitch with /lang [code], e.g. /lang es",
+  "lang.unknown": "I don't speak \"{code}\" yet. Available: {available}",
+  "lang.set": "Got it! I'll talk to you in {language} from now on.",
+  "join.list": "Confession groups:\n{groups}\n\nSwitch with /join [name], e.g. /join {example}",
+  "join.line": "• {id}: {name}",
+  "join.lineCurrent": "👉 {id}: {name} (your DM commands go here)",
+  "join.unknown": "There's no \"{name}\" group. Send /join to see them all.",
+  "join.banned": "You can't join \"{group}\".",
+  "join.joined": "You've been added to \"{group}\"! Your /confess, /guess and other DM commands now go to this group.",
+  "join.switched": "Your /confess, /guess and other DM commands now go to \"{group}\".",
+  "join.failed": "Sorry, I couldn't add you to that group. Please try again.",
+  "join.alreadyMember": "You're already in \"{group}\".",
+  "join.notInvited": "Sorry, \"{group}\" is invite-only and your address isn't on the list.",
+  "leave.done": "You've left \"{group}\". I won't add you back unless you send /join {id}.",
+  "leave.notMember": "You're not in \"{group}\", and I won't add you unless you send /join {id}.",
+  "leave.doneAll": "You've left every confession group. I won't add you back unless you send /join.",
+  "leave.failed": "Sorry, I couldn't remove you. Please try again.",
+
+  "welcome.added": "You've been added to the \"{group}\" group. You'll see the chat in your requests when a new message is sent!",
+  "welcome.intro": "Welcome to the Confession Game! Here's how to play:",
+  "welcome.step": "{number}. {description}:\n   {usage}\n   Example: {example}",
+  "welcome.outro": "Send /help to see every command.",
+  "welcome.prompt": "👋 Want to play? Send /join to join \"{group}\", where confessions are posted and guessed. You can /leave any time.",
+  "welcome.promptGroups": "👋 Want to play? Send /join to see the confession groups and pick one. You can /leave any time.",
+  "error.generic": "Sorry, I encountered an error processing your message.",
+
+  "help.title": "Available commands:",
+  "help.aliases": "(also {aliases})",
+  "usage.format": "{description}. Use the format:\n{usage}",
+  "usage.example": "Example:\n{example}",
+  "command.unknown": "Unknown command /{name}. Send /help to see every command.",
+  "command.suggest": "Unknown command /{name}. Did you mean {suggestions}?",
+  "command.or": "or",
+  "command.dmOnly": "/{name} only works in a direct message with me.",
+  "command.groupOnly": "/{name} only works in the group chat.",
+  "command.adminOnly": "/{name} is only available to admins.",
+
+  "confession.new": "🌶️🌶️🌶️ New Confession #{id}: \"{question}\"",
+  "confession.next": "🌶️🌶️🌶️ Next Confession #{id}: \"{question}\"",
+  "confession.savedLive": "Confession saved successfully! It's live in the group now. Others will try to guess who made it.",
+  "confession.savedQueued":
+    "Confession saved! You're #{position} in the queue. I'll message you when it goes live in the group. Changed your mind? Send /retract.",
+  "confession.joinFirst": "You're not in \"{group}\" yet. Send {command} to join, then send this again.",
+  "confession.blocked": "Your confession wasn't posted because {reason}. Please rephrase it and try again.",
+  "confession.noAddress": "Sorry, I couldn't look up your address. Please try again.",
+  "confession.awaitingReview": "Thanks! Your confession is waiting for a moderator. I'll let you know once it's been reviewed.",
+  "confession.noName": "Heads up: your address has no Basename or ENS name, so players will have to guess your address.",
+  "confession.saveFailed": "Sorry, I couldn't save your confession. Please try again.",
+  "confession.failed": "Sorry, I couldn't process your confession. Please try again.",
+
+  // The games a group can play; admins pick one with /mode
+  "mode.confessions": "Confessions",
+  "mode.confessionsHowTo": "DM me /confess [your confession] and the group guesses who made it with /guess [name].",
+  "mode.twoTruths": "Two Truths and a Lie",
+  "mode.twoTruthsHowTo":
+    "DM me /truths with three statements about yourself, two true and one false, separated by |, and which one is the lie, e.g. /truths I have a twin | I've been to Japan | I hate coffee lie: 3. Then vote on everyone else's with /lie 1, 2 or 3.",
+  "mode.switched": "🎮 New game: {mode}! {howTo}",
+  "mode.wrongSubmit": "{group} is playing {mode} right now. {howTo}",
+
+  "twoTruths.new": "🎭 Two Truths and a Lie #{id} from {name}:\n{statements}\n\nWhich one is the lie? Vote with /lie 1, 2 or 3",
+  "twoTruths.next": "🎭 Next up, Two Truths and a Lie #{id} from {name}:\n{statements}\n\nWhich one is the lie? Vote with /lie 1, 2 or 3",
+  "twoTruths.invalid":
+    "I need exactly three statements separated by |, then which one is the lie, e.g. /truths I have a twin | I've been to Japan | I hate coffee lie: 3",
+  "twoTruths.savedLive": "Saved! Your statements are live in the group now. Let's see who spots the lie.",
+  "twoTruths.savedQueued":
+    "Saved! You're #{position} in the queue. I'll message you when your statements go live in the group. Changed your mind? Send /retract.",
+  "twoTruths.live": "🎭 Your Two Truths and a Lie #{id} is now live in the group! Let's see who spots the lie.",
+  "twoTruths.reminderOne": "⏳ 1 minute left to vote on #{id}! Which of {name}'s statements is the lie?",
+  "twoTruths.reminder": "⏳ {minutes} minutes left to vote on #{id}! Which of {name}'s statements is the lie?",
+  "twoTruths.revealed":
+    "🎭 Voting's over for #{id}! {name}'s lie was {number}: \"{lie}\"\n{spotted} of {votes} voters spotted it (+{votePoints} points each), and {name} earns {points} points for fooling the rest.",
+  "twoTruths.result": "🎭 Voting's over for your #{id}: {spotted} of {votes} voters spotted the lie. You earn {points} points.",
+
+  "lie.voted": "🗳️ Got your vote for {choice} on #{id}. You can change it until voting ends.",
+  "lie.changed": "🗳️ Changed your vote on #{id} to {choice}.",
+  "lie.noRound": "There's no Two Truths and a Lie round to vote on right now.",
+  "lie.notOpen": "#{id} isn't open for voting. Send /current to see the open rounds.",
+  "confession.wrongCommand": "#{id} is a confession. Guess who made it with /guess #{id} [name].",
+  "lie.ownRound": "Nice try! You can't vote on your own statements.",
+  "lie.invalid": "Vote with the number of the statement you think is the lie: 1, 2 or 3.",
+  "lie.failed": "Sorry, I couldn't record your vote. Please try again.",
+
+  // DMs to the confessor about their own confession
+  "confessor.live": "🌶️ Your confession #{id} \"{question}\" is now live in the group! Let's see if anyone guesses it's you.",
+  "confessor.guessed": "🎯 Your confession #{id} \"{question}\" was guessed by {name}!",
+  "confessor.survived": "🛡️ Your confession #{id} \"{question}\" survived! Nobody guessed it was you. You earn {points} points.",
+  "confessor.timeout": "⏰ Time's up! Nobody guessed your confession #{id} \"{question}\". You earn {points} points.",
+  "confessor.skipped": "⏭️ An admin ended the round for your confession #{id} \"{question}\". You stayed anonymous.",
+  "confessor.revealed": "🔓 An admin revealed that you made confession #{id} \"{question}\".",
+
+  "guess.correct": "🎉🎉🎉 {name} correctly guessed who made confession #{id}! (+{points} points) 🎉🎉🎉",
+  "guess.close": "🔥 So close, {name}! \"{guess}\" is almost right. Check your spelling and try again.",
+  "guess.closeCounted": "🔥 So close, {name}! \"{guess}\" is almost right, but it still counts as a wrong guess.",
+  "guess.ownConfession": "Nice try! You can't guess your own confession.",
+  "guess.outOfAttempts": "You've used all {attempts} of your guesses for this confession. Wait for the next one!",
+  "guess.cooldown": "Slow down! You can guess again in {seconds} seconds.",
+  "guess.noGame": "No game found",
+  "guess.notOpen": "Confession #{id} isn't open for guessing. Send /current to see the open ones.",
+  "twoTruths.wrongCommand": "#{id} is a Two Truths and a Lie round. Vote on which statement is the lie with /lie #{id} [1, 2 or 3].",
+  "guess.gameOver": "Game over! {max} incorrect guesses reached. The confessor remains anonymous. A new game can now begin!",
+  "guess.failed": "Sorry, I couldn't check your guess. Please try again.",
+
+  "round.survived": "🛡️ Nobody guessed who confessed #{id} \"{question}\"! The confessor earns {points} points.",
+  "round.reminderOne": "⏳ 1 minute left to guess who confessed #{id} \"{question}\"!",
+  "round.reminder": "⏳ {minutes} minutes left to guess who confessed #{id} \"{question}\"!",
+  "round.timeoutRevealed":
+    "⏰ Time's up! #{id} \"{question}\" was confessed by {name}. They earn {points} points for staying hidden.",
+  "round.timeoutExpired": "⏰ Time's up! Nobody guessed who confessed #{id} \"{question}\". The confessor earns {points} points.",
+
+  "current.one": "🌶️🌶️🌶️ Current Confession to Guess #{id}: \"{question}\"",
+  "current.many": "🌶️🌶️🌶️ Confessions to Guess:\n{list}\n\nTarget one with /guess #id [name]",
+  "current.line": "#{id}: \"{question}\" ({wrong}/{max} wrong guesses)",
+  "current.lineVotes": "#{id}: \"{question}\" ({votes} votes for the lie, /lie #{id} [1, 2 or 3])",
+  "current.none": "There is no active confession to guess right now. Use /confess to start a new one!",
+  "current.failed": "Sorry, I couldn't retrieve the current confession. Please try again.",
+
+  "hint.format": "💡 Hint {number}/{total} for #{id}: {hint}\nA correct guess is now worth {points} points.",
+  "hint.custom": "The confessor says: \"{hint}\"",
+  "hint.length": "Their name has {length} characters.",
+  "hint.lengthBeforeSuffix": "Their name has {length} characters (before \"{suffix}\").",
+  "hint.firstLetter": "Their name starts with \"{letter}\".",
+  "hint.masked": "Their name looks like {masked}.",
+  "hint.address": "Their address ends in {ending}.",
+  "hint.none": "There is no active confession to get a hint for.",
+  "hint.notOpen": "Confession #{id} isn't open for guessing.",
+  "hint.allOut": "All the hints for this confession are already out. Time to guess!",
+  "hint.posted": "Hint posted in the group!",
+  "hint.failed": "Sorry, I couldn't get a hint. Please try again.",
+
+  "queue.countOne": "📋 1 confession is waiting in the queue.",
+  "queue.count": "📋 {count} confessions are waiting in the queue.",
+  "queue.live": "Live in the group right now: {ids}",
+  "queue.yours": "Yours:\n{list}",
+  "queue.yoursLine": "#{id} (position {position}): \"{question}\"",
+  "queue.failed": "Sorry, I couldn't load the queue. Please try again.",
+  "retract.usage": "Use /retract on its own, or /retract followed by the confession id.",
+  "retract.none": "You don't have a confession waiting in the queue. Confessions that are already live can't be retracted.",
+  "retract.done": "🗑️ Retracted your confession \"{question}\". Nobody will see it.",
+  "retract.failed": "Sorry, I couldn't retract your confession. Please try again.",
+
+  "leaderboard.title": "🏆 Leaderboard",
+  "leaderboard.empty": "No points scored yet. Be the first!",
+  "leaderboard.line": "{position} {name}: {points} pts",
+  "leaderboard.failed": "Sorry, I couldn't load the leaderboard. Please try again.",
+  "stats.format":
+    "📊 Stats for {name}\n\nPoints: {points}{rank}\nCorrect guesses: {correct}\nWrong guesses: {wrong}",
+  // Added to your own /stats only
+  "stats.confessions": "\nConfessions: {confessions} ({survived} survived)",
+  "stats.rank": " (rank #{rank})",
+  "stats.unknownPlayer": "I don't have any stats for {name} yet.",
+  "stats.none": "You don't have any stats yet. Make a /confess or a /guess to get started!",
+  "stats.failed": "Sorry, I couldn't load those stats. Please try again.",
+  "spiciest.title": "🌶️ Spiciest Confessions",
+  "spiciest.none": "No spicy votes yet. React 🌶️ to a confession to vote for it!",
+  "spiciest.line": "{position} #{id} \"{question}\": {votes} 🌶️",
+  "spiciest.failed": "Sorry, I couldn't load the spiciest confessions. Please try again.",
+
+  "shh.relay": "🤫 {name}: {text}",
+  "shh.empty": "Please provide a message after /shh",
+  "shh.blocked": "Your message wasn't relayed because {reason}. Please rephrase it and try again.",
+  "shh.awaitingReview": "Thanks! Your message is waiting for a moderator. I'll let you know once it's been reviewed.",
+  "shh.relayed": "Message relayed anonymously as {name}! Others can answer you privately with /whisper {name} [message].",
+  "shh.failed": "Sorry, I couldn't relay your message.",
+  "whisper.blocked": "Your whisper wasn't sent because {reason}. Please rephrase it and try again.",
+  "whisper.unknown": "There's no one going by \"{name}\" right now. Pseudonyms change after a while, so they may have moved on.",
+  "whisper.received": "🤫 {from} whispered to you ({name}): {text}",
+  "whisper.sent": "Whisper sent to {name}!",
+  "whisper.failed": "Sorry, I couldn't deliver your whisper. Please try again.",
+
+  // Why a /confess or /shh was held back; fills {reason} above
+  "moderation.blockedWord": "it contains a blocked word",
+  "moderation.email": "it looks like it contains an email address",
+  "moderation.phone": "it looks like it contains a phone number",
+  "moderation.streetAddress": "it looks like it contains a street address",
+  "moderation.walletAddress": "it looks like it contains a wallet address",
+  "moderation.ensName": "it looks like it contains an ENS name or Basename",
+
+  "review.confessionRequest":
+    "📝 Confession #{id} for \"{group}\" is waiting for review:\n\n\"{text}\"\n\nReply /approve {target} or /reject {target} [reason]",
+  "review.shhRequest":
+    "📝 Anonymous message #{id} for \"{group}\" is waiting for review:\n\n\"{text}\"\n\nReply /approve {target} or /reject {target} [reason]",
+  "review.notFound": "There is no submission #{id} waiting for review in \"{group}\". It may already have been handled.",
+  "review.saveFailed": "Couldn't save submission #{id}. Please try again later.",
+  "review.confessionApproved": "✅ Your confession was approved! {saved}",
+  "review.shhApproved": "✅ Your anonymous message was approved and relayed!",
+  "review.confessionRejected": "🚫 Your confession wasn't approved.",
+  "review.shhRejected": "🚫 Your anonymous message wasn't approved.",
+  "review.reason": "Reason: {reason}",
+  "review.approved": "Approved submission #{id}.",
+  "review.rejected": "Rejected submission #{id}.",
+
+  "admin.notOpen": "Confession #{id} isn't open.",
+  "admin.skipNone": "There is no active confession to skip.",
+  "admin.skipped": "⏭️ An admin skipped confession #{id} \"{question}\".",
+  "admin.skipDone": "Skipped confession #{id}.",
+  "admin.revealNone": "There is no active confession to reveal.",
+  "admin.revealed": "🔓 Revealed! #{id} \"{question}\" was confessed by {name}.",
+  "admin.revealDone": "Revealed confession #{id}.",
+  "admin.modeCurrent": "This group is playing {mode}. Switch with /mode [game]: {available}",
+  "admin.modeUnknown": "There's no \"{name}\" game. Pick one of: {available}",
+  "admin.modeAlready": "This group is already playing {mode}.",
+  "admin.modeDone": "Switched to {mode}. Rounds already open or queued play out as they were submitted.",
+  "admin.removeNotFound": "There is no confession #{id}.",
+  "admin.removeDone": "Removed confession #{id}.",
+  "admin.kickFailed": "Couldn't remove {member} from the group. Are they a member?",
+  "admin.kickDone": "Removed {member} from the group.",
+  "admin.notOnXmtp": "{member} isn't on XMTP.",
+  "admin.alreadyBanned": "{member} is already banned.",
+  "admin.banDone": "Banned {member}.",
+  "admin.notBanned": "{member} isn't banned.",
+  "admin.unbanDone": "Unbanned {member}. They can message me again and rejoin the group.",
+  "admin.reset": "🔄 The game has been reset. Send me /confess to start a new round!",
+  "admin.resetDone": "Game reset.",
+  "admin.announcement": "📢 {text}",
+  "admin.announceDone": "Announcement sent.",
+  "admin.unmaskDisabled": "Unmasking pseudonyms is turned off. Set shh.revealToAdmins in the config to allow it.",
+  "admin.unmaskNotFound": "There's no pseudonym \"{name}\".",
+  "admin.unmaskDone": "{name} is {member}.",
+  "admin.groupNameTaken": "Another confession group is already called \"{value}\".",
+  "admin.groupNameDone": "Renamed the group to \"{value}\".",
+  "admin.groupDescriptionDone": "Updated the group's description.",
+  "admin.groupImageInvalid": "\"{value}\" isn't an http or https URL.",
+  "admin.groupImageDone": "Updated the group's image.",
+  "admin.groupUpdateFailed": "Couldn't update the group. Is the bot still one of its admins?",
+};
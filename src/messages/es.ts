@@ -0,0 +1,263 @@
+import type { LocaleBundle } from "./index.js";
+
+// Spanish. Admin-only command help isn't translated and falls back to English.
+export const es: LocaleBundle = {
+  "lang.name": "Español",
+  "lang.current": "Te hablo en {language}. Disponibles: {available}\n\nCambia con /lang [código], p. ej. /lang en",
+  "lang.unknown": "Todavía no hablo \"{code}\". Disponibles: {available}",
+  "lang.set": "¡Entendido! A partir de ahora te hablo en {language}.",
+  "join.list": "Grupos de confesiones:\n{groups}\n\nCambia con /join [nombre], p. ej. /join {example}",
+  "join.line": "• {id}: {name}",
+  "join.lineCurrent": "👉 {id}: {name} (tus comandos por DM van aquí)",
+  "join.unknown": "No hay ningún grupo \"{name}\". Envía /join para verlos todos.",
+  "join.banned": "No puedes unirte a \"{group}\".",
+  "join.joined": "¡Te he añadido a \"{group}\"! Tus /confess, /guess y demás comandos por DM ahora van a este grupo.",
+  "join.switched": "Tus /confess, /guess y demás comandos por DM ahora van a \"{group}\".",
+  "join.failed": "Lo siento, no pude añadirte a ese grupo. Vuelve a intentarlo.",
+  "join.alreadyMember": "Ya estás en \"{group}\".",
+  "join.notInvited": "Lo siento, \"{group}\" es solo con invitación y tu dirección no está en la lista.",
+  "leave.done": "Has salido de \"{group}\". No volveré a añadirte a menos que envíes /join {id}.",
+  "leave.notMember": "No estás en \"{group}\", y no te añadiré a menos que envíes /join {id}.",
+  "leave.doneAll": "Has salido de todos los grupos de confesiones. No volveré a añadirte a menos que envíes /join.",
+  "leave.failed": "Lo siento, no pude sacarte del grupo. Vuelve a intentarlo.",
+
+  "welcome.added": "Te he añadido al grupo \"{group}\". ¡Verás el chat en tus solicitudes cuando llegue un mensaje nuevo!",
+  "welcome.intro": "¡Bienvenido al Juego de las Confesiones! Así se juega:",
+  "welcome.step": "{number}. {description}:\n   {usage}\n   Ejemplo: {example}",
+  "welcome.outro": "Envía /help para ver todos los comandos.",
+  "welcome.prompt": "👋 ¿Quieres jugar? Envía /join para unirte a \"{group}\", donde se publican y adivinan las confesiones. Puedes salir con /leave cuando quieras.",
+  "welcome.promptGroups": "👋 ¿Quieres jugar? Envía /join para ver los grupos de confesiones y elegir uno. Puedes salir con /leave cuando quieras.",
+  "error.generic": "Lo siento, hubo un error al procesar tu mensaje.",
+
+  "help.title": "Comandos disponibles:",
+  "help.aliases": "(también {aliases})",
+  "usage.format": "{description}. Usa el formato:\n{usage}",
+  "usage.example": "Ejemplo:\n{example}",
+  "command.unknown": "No conozco el comando /{name}. Envía /help para ver todos los comandos.",
+  "command.suggest": "No conozco el comando /{name}. ¿Quisiste decir {suggestions}?",
+  "command.or": "o",
+  "command.dmOnly": "/{name} solo funciona en un mensaje directo conmigo.",
+  "command.groupOnly": "/{name} solo funciona en el chat del grupo.",
+  "command.adminOnly": "/{name} es solo para admins.",
+
+  "confession.new": "🌶️🌶️🌶️ Nueva confesión #{id}: \"{question}\"",
+  "confession.next": "🌶️🌶️🌶️ Siguiente confesión #{id}: \"{question}\"",
+  "confession.savedLive": "¡Confesión guardada! Ya está en el grupo. Los demás intentarán adivinar quién la hizo.",
+  "confession.savedQueued":
+    "¡Confesión guardada! Estás en el puesto #{position} de la cola. Te aviso cuando salga en el grupo. ¿Te arrepientes? Envía /retract.",
+  "confession.joinFirst": "Todavía no estás en \"{group}\". Envía {command} para unirte y luego vuelve a enviarlo.",
+  "confession.blocked": "No publiqué tu confesión porque {reason}. Escríbela de otra forma y vuelve a intentarlo.",
+  "confession.noAddress": "Lo siento, no encontré tu dirección. Vuelve a intentarlo.",
+  "confession.awaitingReview": "¡Gracias! Tu confesión está esperando a un moderador. Te aviso cuando la revisen.",
+  "confession.noName": "Ojo: tu dirección no tiene Basename ni nombre ENS, así que tendrán que adivinar tu dirección.",
+  "confession.saveFailed": "Lo siento, no pude guardar tu confesión. Vuelve a intentarlo.",
+  "confession.failed": "Lo siento, no pude procesar tu confesión. Vuelve a intentarlo.",
+
+  "mode.confessions": "Confesiones",
+  "mode.confessionsHowTo": "Envíame /confess [tu confesión] por DM y el grupo adivina quién la hizo con /guess [nombre].",
+  "mode.twoTruths": "Dos verdades y una mentira",
+  "mode.twoTruthsHowTo":
+    "Envíame /truths por DM con tres frases sobre ti, dos verdaderas y una falsa, separadas por |, y cuál es la mentira, p. ej. /truths Tengo un gemelo | He estado en Japón | Odio el café lie: 3. Luego vota en las de los demás con /lie 1, 2 o 3.",
+  "mode.switched": "🎮 ¡Nuevo juego: {mode}! {howTo}",
+  "mode.wrongSubmit": "{group} está jugando a {mode} ahora mismo. {howTo}",
+
+  "twoTruths.new": "🎭 Dos verdades y una mentira #{id} de {name}:\n{statements}\n\n¿Cuál es la mentira? Vota con /lie 1, 2 o 3",
+  "twoTruths.next": "🎭 Ahora, Dos verdades y una mentira #{id} de {name}:\n{statements}\n\n¿Cuál es la mentira? Vota con /lie 1, 2 o 3",
+  "twoTruths.invalid":
+    "Necesito exactamente tres frases separadas por | y luego cuál es la mentira, p. ej. /truths Tengo un gemelo | He estado en Japón | Odio el café lie: 3",
+  "twoTruths.savedLive": "¡Guardado! Tus frases ya están en el grupo. A ver quién descubre la mentira.",
+  "twoTruths.savedQueued":
+    "¡Guardado! Eres el #{position} en la cola. Te escribiré cuando tus frases salgan en el grupo. ¿Cambiaste de idea? Envía /retract.",
+  "twoTruths.live": "🎭 ¡Tu Dos verdades y una mentira #{id} ya está en el grupo! A ver quién descubre la mentira.",
+  "twoTruths.reminderOne": "⏳ ¡Queda 1 minuto para votar en #{id}! ¿Cuál de las frases de {name} es la mentira?",
+  "twoTruths.reminder": "⏳ ¡Quedan {minutes} minutos para votar en #{id}! ¿Cuál de las frases de {name} es la mentira?",
+  "twoTruths.revealed":
+    "🎭 ¡Se acabó la votación de #{id}! La mentira de {name} era la {number}: \"{lie}\"\n{spotted} de {votes} votantes la descubrieron (+{votePoints} puntos cada uno) y {name} gana {points} puntos por engañar al resto.",
+  "twoTruths.result": "🎭 Se acabó la votación de tu #{id}: {spotted} de {votes} votantes descubrieron la mentira. Ganas {points} puntos.",
+
+  "lie.voted": "🗳️ Tengo tu voto por la {choice} en #{id}. Puedes cambiarlo hasta que acabe la votación.",
+  "lie.changed": "🗳️ Cambié tu voto en #{id} a la {choice}.",
+  "lie.noRound": "Ahora mismo no hay ninguna ronda de Dos verdades y una mentira para votar.",
+  "lie.notOpen": "#{id} no está abierta para votar. Envía /current para ver las rondas abiertas.",
+  "confession.wrongCommand": "#{id} es una confesión. Adivina quién la hizo con /guess #{id} [nombre].",
+  "lie.ownRound": "¡Buen intento! No puedes votar en tus propias frases.",
+  "lie.invalid": "Vota con el número de la frase que crees que es mentira: 1, 2 o 3.",
+  "lie.failed": "Lo siento, no pude registrar tu voto. Vuelve a intentarlo.",
+
+  "confessor.live": "🌶️ ¡Tu confesión #{id} \"{question}\" ya está en el grupo! A ver si alguien adivina que eres tú.",
+  "confessor.guessed": "🎯 ¡{name} adivinó que tú hiciste la confesión #{id} \"{question}\"!",
+  "confessor.survived": "🛡️ ¡Tu confesión #{id} \"{question}\" sobrevivió! Nadie adivinó que eras tú. Ganas {points} puntos.",
+  "confessor.timeout": "⏰ ¡Se acabó el tiempo! Nadie adivinó tu confesión #{id} \"{question}\". Ganas {points} puntos.",
+  "confessor.skipped": "⏭️ Un admin terminó la ronda de tu confesión #{id} \"{question}\". Sigues en el anonimato.",
+  "confessor.revealed": "🔓 Un admin reveló que tú hiciste la confesión #{id} \"{question}\".",
+
+  "guess.correct": "🎉🎉🎉 ¡{name} adivinó quién hizo la confesión #{id}! (+{points} puntos) 🎉🎉🎉",
+  "guess.close": "🔥 ¡Casi, {name}! \"{guess}\" está muy cerca. Revisa cómo se escribe y vuelve a intentarlo.",
+  "guess.closeCounted": "🔥 ¡Casi, {name}! \"{guess}\" está muy cerca, pero cuenta como fallo.",
+  "guess.ownConfession": "¡Buen intento! No puedes adivinar tu propia confesión.",
+  "guess.outOfAttempts": "Ya usaste tus {attempts} intentos para esta confesión. ¡Espera a la siguiente!",
+  "guess.cooldown": "¡Más despacio! Puedes volver a intentarlo en {seconds} segundos.",
+  "guess.noGame": "No hay ninguna partida",
+  "guess.notOpen": "La confesión #{id} no está abierta. Envía /current para ver las abiertas.",
+  "twoTruths.wrongCommand": "#{id} es una ronda de Dos verdades y una mentira. Vota cuál es la mentira con /lie #{id} [1, 2 o 3].",
+  "guess.gameOver": "¡Fin de la partida! Se llegó a {max} fallos. Quien confesó sigue en el anonimato. ¡Ya puede empezar otra!",
+  "guess.failed": "Lo siento, no pude comprobar tu respuesta. Vuelve a intentarlo.",
+
+  "round.survived": "🛡️ ¡Nadie adivinó quién confesó #{id} \"{question}\"! Quien confesó gana {points} puntos.",
+  "round.reminderOne": "⏳ ¡Queda 1 minuto para adivinar quién confesó #{id} \"{question}\"!",
+  "round.reminder": "⏳ ¡Quedan {minutes} minutos para adivinar quién confesó #{id} \"{question}\"!",
+  "round.timeoutRevealed":
+    "⏰ ¡Se acabó el tiempo! #{id} \"{question}\" lo confesó {name}, que gana {points} puntos por no ser descubierto.",
+  "round.timeoutExpired": "⏰ ¡Se acabó el tiempo! Nadie adivinó quién confesó #{id} \"{question}\". Quien confesó gana {points} puntos.",
+
+  "current.one": "🌶️🌶️🌶️ Confesión por adivinar #{id}: \"{question}\"",
+  "current.many": "🌶️🌶️🌶️ Confesiones por adivinar:\n{list}\n\nElige una con /guess #id [nombre]",
+  "current.line": "#{id}: \"{question}\" ({wrong}/{max} fallos)",
+  "current.lineVotes": "#{id}: \"{question}\" ({votes} votos, /lie #{id} [1, 2 o 3])",
+  "current.none": "Ahora mismo no hay ninguna confesión por adivinar. ¡Usa /confess para empezar una!",
+  "current.failed": "Lo siento, no pude cargar la confesión actual. Vuelve a intentarlo.",
+
+  "hint.format": "💡 Pista {number}/{total} para #{id}: {hint}\nAcertar ahora vale {points} puntos.",
+  "hint.custom": "Quien confesó dice: \"{hint}\"",
+  "hint.length": "Su nombre tiene {length} caracteres.",
+  "hint.lengthBeforeSuffix": "Su nombre tiene {length} caracteres (antes de \"{suffix}\").",
+  "hint.firstLetter": "Su nombre empieza por \"{letter}\".",
+  "hint.masked": "Su nombre se parece a {masked}.",
+  "hint.address": "Su dirección termina en {ending}.",
+  "hint.none": "No hay ninguna confesión abierta para dar pistas.",
+  "hint.notOpen": "La confesión #{id} no está abierta.",
+  "hint.allOut": "Ya salieron todas las pistas de esta confesión. ¡A adivinar!",
+  "hint.posted": "¡Pista publicada en el grupo!",
+  "hint.failed": "Lo siento, no pude conseguir una pista. Vuelve a intentarlo.",
+
+  "queue.countOne": "📋 Hay 1 confesión esperando en la cola.",
+  "queue.count": "📋 Hay {count} confesiones esperando en la cola.",
+  "queue.live": "En el grupo ahora mismo: {ids}",
+  "queue.yours": "Las tuyas:\n{list}",
+  "queue.yoursLine": "#{id} (puesto {position}): \"{question}\"",
+  "queue.failed": "Lo siento, no pude cargar la cola. Vuelve a intentarlo.",
+  "retract.usage": "Usa /retract solo, o /retract seguido del número de la confesión.",
+  "retract.none": "No tienes ninguna confesión en la cola. Las que ya están en el grupo no se pueden retirar.",
+  "retract.done": "🗑️ Retiré tu confesión \"{question}\". Nadie la verá.",
+  "retract.failed": "Lo siento, no pude retirar tu confesión. Vuelve a intentarlo.",
+
+  "leaderboard.title": "🏆 Clasificación",
+  "leaderboard.empty": "Nadie tiene puntos todavía. ¡Sé el primero!",
+  "leaderboard.line": "{position} {name}: {points} pts",
+  "leaderboard.failed": "Lo siento, no pude cargar la clasificación. Vuelve a intentarlo.",
+  "stats.format":
+    "📊 Estadísticas de {name}\n\nPuntos: {points}{rank}\nAciertos: {correct}\nFallos: {wrong}",
+  "stats.confessions": "\nConfesiones: {confessions} ({survived} sobrevivieron)",
+  "stats.rank": " (puesto #{rank})",
+  "stats.unknownPlayer": "Todavía no tengo estadísticas de {name}.",
+  "stats.none": "Todavía no tienes estadísticas. ¡Haz un /confess o un /guess para empezar!",
+  "stats.failed": "Lo siento, no pude cargar esas estadísticas. Vuelve a intentarlo.",
+  "spiciest.title": "🌶️ Confesiones más picantes",
+  "spiciest.none": "Todavía no hay votos picantes. ¡Reacciona con 🌶️ a una confesión para votarla!",
+  "spiciest.line": "{position} #{id} \"{question}\": {votes} 🌶️",
+  "spiciest.failed": "Lo siento, no pude cargar las confesiones más picantes. Vuelve a intentarlo.",
+
+  "shh.relay": "🤫 {name}: {text}",
+  "shh.empty": "Escribe un mensaje después de /shh",
+  "shh.blocked": "No reenvié tu mensaje porque {reason}. Escríbelo de otra forma y vuelve a intentarlo.",
+  "shh.awaitingReview": "¡Gracias! Tu mensaje está esperando a un moderador. Te aviso cuando lo revisen.",
+  "shh.relayed": "¡Mensaje reenviado de forma anónima como {name}! Otros pueden responderte en privado con /whisper {name} [mensaje].",
+  "shh.failed": "Lo siento, no pude reenviar tu mensaje.",
+  "whisper.blocked": "No envié tu susurro porque {reason}. Escríbelo de otra forma y vuelve a intentarlo.",
+  "whisper.unknown": "Ahora mismo nadie usa el seudónimo \"{name}\". Los seudónimos cambian cada cierto tiempo, así que puede que ya no esté.",
+  "whisper.received": "🤫 {from} te susurró ({name}): {text}",
+  "whisper.sent": "¡Susurro enviado a {name}!",
+  "whisper.failed": "Lo siento, no pude entregar tu susurro. Vuelve a intentarlo.",
+
+  "moderation.blockedWord": "contiene una palabra bloqueada",
+  "moderation.email": "parece que contiene un correo electrónico",
+  "moderation.phone": "parece que contiene un número de teléfono",
+  "moderation.streetAddress": "parece que contiene una dirección postal",
+  "moderation.walletAddress": "parece que contiene una dirección de wallet",
+  "moderation.ensName": "parece que contiene un nombre ENS o Basename",
+
+  "review.confessionRequest":
+    "📝 La confesión #{id} para \"{group}\" espera revisión:\n\n\"{text}\"\n\nResponde /approve {target} o /reject {target} [motivo]",
+  "review.shhRequest":
+    "📝 El mensaje anónimo #{id} para \"{group}\" espera revisión:\n\n\"{text}\"\n\nResponde /approve {target} o /reject {target} [motivo]",
+  "review.notFound": "No hay ninguna propuesta #{id} esperando revisión en \"{group}\". Puede que ya se haya gestionado.",
+  "review.saveFailed": "No pude guardar la propuesta #{id}. Vuelve a intentarlo más tarde.",
+  "review.confessionApproved": "✅ ¡Aprobaron tu confesión! {saved}",
+  "review.shhApproved": "✅ ¡Aprobaron tu mensaje anónimo y ya está en el grupo!",
+  "review.confessionRejected": "🚫 No aprobaron tu confesión.",
+  "review.shhRejected": "🚫 No aprobaron tu mensaje anónimo.",
+  "review.reason": "Motivo: {reason}",
+  "review.approved": "Propuesta #{id} aprobada.",
+  "review.rejected": "Propuesta #{id} rechazada.",
+
+  "admin.notOpen": "La confesión #{id} no está abierta.",
+  "admin.skipNone": "No hay ninguna confesión abierta que saltar.",
+  "admin.skipped": "⏭️ Un admin saltó la confesión #{id} \"{question}\".",
+  "admin.skipDone": "Confesión #{id} saltada.",
+  "admin.revealNone": "No hay ninguna confesión abierta que revelar.",
+  "admin.revealed": "🔓 ¡Revelado! #{id} \"{question}\" lo confesó {name}.",
+  "admin.revealDone": "Confesión #{id} revelada.",
+  "admin.modeCurrent": "Este grupo está jugando a {mode}. Cambia con /mode [juego]: {available}",
+  "admin.modeUnknown": "No existe el juego \"{name}\". Elige uno de: {available}",
+  "admin.modeAlready": "Este grupo ya está jugando a {mode}.",
+  "admin.modeDone": "Cambiado a {mode}. Las rondas ya abiertas o en cola se juegan como se enviaron.",
+  "admin.removeNotFound": "No existe la confesión #{id}.",
+  "admin.removeDone": "Confesión #{id} eliminada.",
+  "admin.kickFailed": "No pude sacar a {member} del grupo. ¿Es miembro?",
+  "admin.kickDone": "Saqué a {member} del grupo.",
+  "admin.notOnXmtp": "{member} no está en XMTP.",
+  "admin.alreadyBanned": "{member} ya está bloqueado.",
+  "admin.banDone": "{member} bloqueado.",
+  "admin.notBanned": "{member} no está bloqueado.",
+  "admin.unbanDone": "{member} desbloqueado. Puede volver a escribirme y unirse al grupo.",
+  "admin.reset": "🔄 La partida se ha reiniciado. ¡Envíame /confess para empezar una ronda nueva!",
+  "admin.resetDone": "Partida reiniciada.",
+  "admin.announcement": "📢 {text}",
+  "admin.announceDone": "Anuncio enviado.",
+  "admin.unmaskDisabled": "Desenmascarar seudónimos está desactivado. Activa shh.revealToAdmins en la configuración para permitirlo.",
+  "admin.unmaskNotFound": "No existe el seudónimo \"{name}\".",
+  "admin.unmaskDone": "{name} es {member}.",
+  "admin.groupNameTaken": "Ya hay otro grupo de confesiones llamado \"{value}\".",
+  "admin.groupNameDone": "He cambiado el nombre del grupo a \"{value}\".",
+  "admin.groupDescriptionDone": "He actualizado la descripción del grupo.",
+  "admin.groupImageInvalid": "\"{value}\" no es una URL http o https.",
+  "admin.groupImageDone": "He actualizado la imagen del grupo.",
+  "admin.groupUpdateFailed": "No pude actualizar el grupo. ¿Sigue siendo el bot uno de sus administradores?",
+
+  "commands.confess.usage": "/confess [tu confesión] hint: [pista opcional]",
+  "commands.confess.description": "Haz una confesión",
+  "commands.confess.example": "/confess Me encanta la pizza hint: Nunca me salto la comida",
+  "commands.guess.usage": "/guess [#id] [nombre o dirección]",
+  "commands.guess.description": "Adivina quién hizo una confesión (la más antigua abierta si no das su #id)",
+  "commands.truths.usage": "/truths [frase] | [frase] | [frase] lie: [1, 2 o 3]",
+  "commands.truths.description": "Juega a Dos verdades y una mentira: comparte tres frases sobre ti, una de ellas falsa",
+  "commands.truths.example": "/truths Tengo un gemelo | He estado en Japón | Odio el café lie: 3",
+  "commands.lie.usage": "/lie [#id] [1, 2 o 3]",
+  "commands.lie.description": "Vota cuál frase es la mentira en Dos verdades y una mentira (la ronda abierta más antigua si no das su #id)",
+  "commands.lie.example": "/lie #5 2",
+  "commands.current.description": "Muestra las confesiones por adivinar",
+  "commands.queue.description": "Mira cuántas confesiones esperan y dónde está la tuya",
+  "commands.retract.usage": "/retract [número de confesión]",
+  "commands.retract.description": "Retira tu confesión antes de que salga (la última si no das el número)",
+  "commands.hint.description": "Publica una pista sobre quien confesó (baja los puntos para todos)",
+  "commands.leaderboard.usage": "/leaderboard [cantidad]",
+  "commands.leaderboard.description": "Muestra a los mejores jugadores",
+  "commands.stats.usage": "/stats [@nombre]",
+  "commands.stats.description": "Muestra tu historial o el de otro jugador",
+  "commands.spiciest.usage": "/spiciest [cantidad]",
+  "commands.spiciest.description": "Muestra las confesiones con más reacciones 🌶️",
+  "commands.join.usage": "/join [grupo]",
+  "commands.join.description": "Únete al grupo de confesiones o, si hay varios, muéstralos o únete a uno y envía ahí tus comandos por DM",
+  "commands.leave.usage": "/leave [grupo o all]",
+  "commands.leave.description": "Sal del grupo de confesiones; no te volveré a añadir hasta que envíes /join",
+  "commands.leave.example": "/leave all",
+  "commands.lang.usage": "/lang [código]",
+  "commands.lang.description": "Elige el idioma de mis mensajes directos",
+  "commands.shh.usage": "/shh [mensaje]",
+  "commands.shh.description": "Envía un mensaje anónimo al grupo con un seudónimo al que otros pueden responder con /whisper",
+  "commands.shh.example": "/shh ¿quién trajo los donuts?",
+  "commands.whisper.usage": "/whisper [seudónimo] [mensaje]",
+  "commands.whisper.description": "Responde en privado a quien envió un /shh; verá tu nombre, pero tú nunca el suyo",
+  "commands.whisper.example": "/whisper Anon Pepper #3 creo que sé quién eres",
+  "commands.help.description": "Lista todos los comandos",
+};
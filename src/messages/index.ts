@@ -0,0 +1,92 @@
+import type { Command } from "../commands/types.js";
+import { en } from "./en.js";
+import { es } from "./es.js";
+
+export type MessageKey = keyof typeof en;
+export type MessageVars = Record<string, string | number>;
+
+// Something to tell a player, before it's put into their language. Lets game logic say what
+// happened without knowing who will read it.
+export type Message = { key: MessageKey; vars?: MessageVars };
+
+// A command's /help texts can be translated too, under "commands.<name>.<field>"
+type CommandField = "usage" | "description" | "example";
+export type CommandTextKey = `commands.${string}.${CommandField}`;
+
+// Templates for one locale. Keys left out fall back to English.
+export type LocaleBundle = Partial<Record<MessageKey | CommandTextKey, string>>;
+
+// Formats a message in one locale
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+export const DEFAULT_LOCALE = "en";
+
+const BUNDLED_LOCALES: Record<string, LocaleBundle> = { en, es };
+
+const COMMAND_TEXT_KEY = /^commands\.[a-z]+\.(usage|description|example)$/;
+
+export const isMessageKey = (key: string): key is MessageKey | CommandTextKey =>
+  key in en || COMMAND_TEXT_KEY.test(key);
+
+// Fills in {name} placeholders. Unknown ones are left as they are, so a typo in a template
+// shows up in the chat instead of silently disappearing.
+export function interpolate(template: string, vars: MessageVars = {}) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+export type Messages = {
+  // Used for group broadcasts and for players who haven't picked a language
+  defaultLocale: string;
+  // Language names by locale code, e.g. { en: "English", es: "Español" }
+  locales: Record<string, string>;
+  // Matches what a player typed, e.g. "ES" or "es-MX", to an available locale
+  findLocale: (code: string) => string | undefined;
+  // A formatter for one locale; the default locale when left out
+  translator: (locale?: string) => Translate;
+  // A command's usage, description and example in one locale
+  describeCommand: (locale: string, command: Command) => Pick<Command, CommandField>;
+};
+
+// Builds the catalog from the bundled locales plus any overrides from the config file.
+// Overrides can reword single messages or add a whole new locale.
+export function createMessages({
+  defaultLocale = DEFAULT_LOCALE,
+  overrides = {},
+}: { defaultLocale?: string; overrides?: Record<string, LocaleBundle> } = {}): Messages {
+  const codes = [...new Set([...Object.keys(BUNDLED_LOCALES), ...Object.keys(overrides)])];
+  // Looks a template up in the locale, then in English
+  const lookup = (locale: string, key: MessageKey | CommandTextKey) =>
+    overrides[locale]?.[key] ??
+    BUNDLED_LOCALES[locale]?.[key] ??
+    overrides[DEFAULT_LOCALE]?.[key] ??
+    BUNDLED_LOCALES[DEFAULT_LOCALE][key];
+
+  const findLocale = (code: string) => {
+    const normalized = code.trim().toLowerCase().replace("_", "-");
+    return codes.find((c) => c === normalized) ?? codes.find((c) => c === normalized.split("-")[0]);
+  };
+
+  if (!codes.includes(defaultLocale)) {
+    throw new Error(`Invalid group locale "${defaultLocale}". Expected one of: ${codes.join(", ")}`);
+  }
+
+  const translator = (locale: string = defaultLocale): Translate => (key, vars) =>
+    interpolate(lookup(locale, key) ?? key, vars);
+
+  return {
+    defaultLocale,
+    // A locale added in the config file without a "lang.name" goes by its code
+    locales: Object.fromEntries(
+      codes.map((code) => [code, overrides[code]?.["lang.name"] ?? BUNDLED_LOCALES[code]?.["lang.name"] ?? code])
+    ),
+    findLocale,
+    translator,
+    describeCommand: (locale, command) => ({
+      usage: lookup(locale, `commands.${command.name}.usage`) ?? command.usage,
+      description: lookup(locale, `commands.${command.name}.description`) ?? command.description,
+      example: command.example && (lookup(locale, `commands.${command.name}.example`) ?? command.example),
+    }),
+  };
+}
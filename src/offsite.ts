@@ -1,25 +1,130 @@
-import { Client, IdentifierKind, type Group, DecodedMessage, GroupPermissionsOptions } from "@xmtp/node-sdk";
-import { log, isSameString } from "./helpers/utils.js";
+import {
+  IdentifierKind,
+  DecodedMessage,
+  GroupPermissionsOptions,
+  MetadataField,
+  PermissionPolicy,
+  PermissionUpdateType,
+  type PermissionPolicySet,
+} from "@xmtp/node-sdk";
+import type { BotClient, BotGroup } from "./helpers/client.js";
+import { isDmConversation, isSameString, getAddressFromXMTPIdentity, resolveInboxId, sendDirectMessage } from "./helpers/utils.js";
+import { logger } from "./helpers/logger.js";
+import { metrics } from "./helpers/metrics.js";
 import { Signer } from "ethers";
 
-const BASE_SUMMIT_ADMIN_ADDRESS = "0x80245b9C0d2Ef322F2554922cA86Cf211a24047F"; // Admin address for Base Summit groups
-const CONFESS_GROUP_NAME = "🌶️🌶️ GUESS 🌶️🌶️";
+// Admin addresses for the bot: the configured ones plus any listed in ADMIN_ADDRESSES (comma-separated)
+export function getAdminAddresses(base: string[] = []): string[] {
+  const fromEnv = (process.env.ADMIN_ADDRESSES ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return [...new Set([...base, ...fromEnv].map((address) => address.toLowerCase()))];
+}
+
+// An inbox may run admin commands if it's a super admin of the group or owns a configured admin address
+export async function isAdmin(
+  client: BotClient,
+  group: BotGroup,
+  adminAddresses: string[],
+  inboxId: string
+): Promise<boolean> {
+  if (group.superAdmins.some((superAdmin) => isSameString(superAdmin, inboxId))) {
+    return true;
+  }
+  const address = await getAddressFromXMTPIdentity(client, inboxId);
+  return !!address && adminAddresses.some((adminAddress) => isSameString(adminAddress, address));
+}
+
+// Who may do something in the group
+export type GroupPolicy = "everyone" | "admins" | "superAdmins";
+
+export type GroupPermissionsConfig = {
+  addMembers: GroupPolicy;
+  removeMembers: GroupPolicy;
+  // Changing the group's name, description and image
+  updateMetadata: GroupPolicy;
+};
+
+// Same as XMTP's default policy
+export const DEFAULT_GROUP_PERMISSIONS: GroupPermissionsConfig = {
+  addMembers: "everyone",
+  removeMembers: "admins",
+  updateMetadata: "everyone",
+};
+
+// What the bot needs to create a confession group
+export type ConfessGroupSettings = { name: string; description: string; permissions: GroupPermissionsConfig };
+
+const POLICIES: Record<GroupPolicy, PermissionPolicy> = {
+  everyone: PermissionPolicy.Allow,
+  admins: PermissionPolicy.Admin,
+  superAdmins: PermissionPolicy.SuperAdmin,
+};
 
-// Helper to find a group by its name
-const findGroupByName = async (client: Client, groupName: string): Promise<Group | undefined> => {
-  log(`[INFO] Looking for existing group: "${groupName}"...`);
+// Helper to turn the configured permissions into XMTP's policy set. Only super admins manage admins.
+const toPolicySet = ({ addMembers, removeMembers, updateMetadata }: GroupPermissionsConfig): PermissionPolicySet => ({
+  addMemberPolicy: POLICIES[addMembers],
+  removeMemberPolicy: POLICIES[removeMembers],
+  addAdminPolicy: PermissionPolicy.SuperAdmin,
+  removeAdminPolicy: PermissionPolicy.SuperAdmin,
+  updateGroupNamePolicy: POLICIES[updateMetadata],
+  updateGroupDescriptionPolicy: POLICIES[updateMetadata],
+  updateGroupImageUrlSquarePolicy: POLICIES[updateMetadata],
+  updateMessageDisappearingPolicy: PermissionPolicy.Admin,
+});
+
+// Helper to bring an existing group's permissions in line with the config, e.g. after it changed
+const applyGroupPermissions = async (group: BotGroup, permissions: GroupPermissionsConfig) => {
+  const wanted = toPolicySet(permissions);
+  const current = group.permissions.policySet;
+  const updates: [keyof PermissionPolicySet, PermissionUpdateType, MetadataField?][] = [
+    ["addMemberPolicy", PermissionUpdateType.AddMember],
+    ["removeMemberPolicy", PermissionUpdateType.RemoveMember],
+    ["updateGroupNamePolicy", PermissionUpdateType.UpdateMetadata, MetadataField.GroupName],
+    ["updateGroupDescriptionPolicy", PermissionUpdateType.UpdateMetadata, MetadataField.Description],
+    ["updateGroupImageUrlSquarePolicy", PermissionUpdateType.UpdateMetadata, MetadataField.ImageUrlSquare],
+  ];
+  for (const [key, type, field] of updates) {
+    if (current[key] === wanted[key]) continue;
+    try {
+      await group.updatePermission(type, wanted[key], field);
+      logger.info(`Updated ${key} of group "${group.name}"`);
+    } catch (e) {
+      logger.error(`Failed to update ${key} of group "${group.name}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+};
+
+// Helper to find a group the bot created by its ID
+const findGroupById = async (client: BotClient, groupId: string): Promise<BotGroup | undefined> => {
+  const conversation = await client.conversations.getConversationById(groupId);
+  return conversation && !isDmConversation(conversation) ? conversation : undefined;
+};
+
+// Helper to find a group by its name. Only groups the bot is a super admin of count, so a
+// stranger's group with the same name is never picked.
+const findGroupByName = async (client: BotClient, groupName: string): Promise<BotGroup | undefined> => {
+  logger.info(`Looking for existing group: "${groupName}"...`);
   const conversations = await client.conversations.list();
-  return conversations.find((g) => (g as Group).name === groupName) as Group | undefined;
+  return conversations
+    .filter((conversation): conversation is BotGroup => !isDmConversation(conversation))
+    .find((g) => g.name === groupName && g.superAdmins.includes(client.inboxId));
 };
 
-// Helper to add a designated admin to a group
-const addAdminToGroupInternal = async (group: Group, adminAddress: string) => {
+// Helper to add a designated admin to a group, unless they're on its do-not-add list
+const addAdminToGroupInternal = async (
+  client: BotClient,
+  group: BotGroup,
+  adminAddress: string,
+  doNotAddInboxIds: string[]
+) => {
   if (!adminAddress) {
-    log(`[ERROR] Admin address is not set for group "${group.name}"`);
+    logger.error(`Admin address is not set for group "${group.name}"`);
     return;
   }
 
-  log(`[INFO] Adding admin ${adminAddress} to group "${group.name}"...`);
+  logger.info(`Adding admin ${adminAddress} to group "${group.name}"...`);
 
   // Check if admin is already a member, otherwise add them
   const members = await group.members();
@@ -30,6 +135,12 @@ const addAdminToGroupInternal = async (group: Group, adminAddress: string) => {
   );
 
   if (!adminMember) {
+    // An admin who used /leave is only brought back by their own /join, like anyone else
+    const inboxId = await resolveInboxId(client, adminAddress);
+    if (inboxId && doNotAddInboxIds.some((optedOut) => isSameString(optedOut, inboxId))) {
+      logger.info(`Not adding admin ${adminAddress} to group "${group.name}": they left it`);
+      return;
+    }
     try {
       await group.addMembersByIdentifiers([
         {
@@ -45,7 +156,7 @@ const addAdminToGroupInternal = async (group: Group, adminAddress: string) => {
         )
       );
     } catch (e) {
-      log(`[ERROR] Failed to add admin ${adminAddress} as member to group "${group.name}": ${e instanceof Error ? e.message : String(e)}`);
+      logger.error(`Failed to add admin ${adminAddress} as member to group "${group.name}": ${e instanceof Error ? e.message : String(e)}`);
       return;
     }
   }
@@ -54,61 +165,126 @@ const addAdminToGroupInternal = async (group: Group, adminAddress: string) => {
     // Check if admin is already a super admin
     const superAdmins = group.superAdmins;
     if (superAdmins.includes(adminMember.inboxId)) {
-      log(`[INFO] ${adminAddress} is already a super admin in group "${group.name}"`);
+      logger.info(`${adminAddress} is already a super admin in group "${group.name}"`);
     } else {
       try {
         await group.addSuperAdmin(adminMember.inboxId);
-        log(`[SUCCESS] Added ${adminAddress} as super admin to group "${group.name}"`);
+        logger.info(`Added ${adminAddress} as super admin to group "${group.name}"`);
       } catch (e) {
-         log(`[ERROR] Failed to promote ${adminAddress} to super admin in group "${group.name}": ${e instanceof Error ? e.message : String(e)}`);
+         logger.error(`Failed to promote ${adminAddress} to super admin in group "${group.name}": ${e instanceof Error ? e.message : String(e)}`);
       }
     }
   } else {
-    log(
-      `[WARNING] Could not find or add member ${adminAddress} to promote as admin in group "${group.name}"`
+    logger.warn(
+      `Could not find or add member ${adminAddress} to promote as admin in group "${group.name}"`
     );
   }
 };
 
-// Internal function to find or create a specific group by name
-async function findOrCreateGroupByNameInternal(
-  client: Client,
-  groupName: string,
-  groupDescription: string,
-  adminAddress: string
-): Promise<Group> {
+// What the game state remembers about a group: the ID it had last time, and who asked not to be added
+export type SavedGroupState = { savedGroupId?: string; doNotAddInboxIds?: string[] };
+
+// Internal function to find or create a specific group: by its saved ID, then by name for a
+// group created before IDs were saved, and otherwise a new one
+async function findOrCreateGroupInternal(
+  client: BotClient,
+  { name: groupName, description: groupDescription, permissions }: ConfessGroupSettings,
+  adminAddresses: string[],
+  { savedGroupId, doNotAddInboxIds = [] }: SavedGroupState
+): Promise<BotGroup> {
   await client.conversations.sync(); // Sync before listing/creating
 
-  let group = await findGroupByName(client, groupName);
+  let group = savedGroupId ? await findGroupById(client, savedGroupId) : undefined;
+  if (savedGroupId && !group) {
+    logger.warn(`Saved group ${savedGroupId} for "${groupName}" wasn't found`);
+  }
+  group ??= await findGroupByName(client, groupName);
   if (group) {
-    log(`[INFO] Found existing group: "${groupName}" (ID: ${group.id})`);
-    // Ensure admin is set even for existing groups
-    await addAdminToGroupInternal(group, adminAddress);
+    logger.info(`Found existing group: "${group.name}" (ID: ${group.id})`);
+    // Ensure admins and permissions are set even for existing groups
+    for (const adminAddress of adminAddresses) {
+      await addAdminToGroupInternal(client, group, adminAddress, doNotAddInboxIds);
+    }
+    await applyGroupPermissions(group, permissions);
     return group;
   }
 
-  log(`[INFO] Creating new group: "${groupName}"...`);
+  logger.info(`Creating new group: "${groupName}"...`);
   const newGroup = await client.conversations.newGroup([], {
     groupName: groupName,
     groupDescription: groupDescription,
+    permissions: GroupPermissionsOptions.CustomPolicy,
+    customPermissionPolicySet: toPolicySet(permissions),
   });
 
-  log(`[SUCCESS] Group "${groupName}" created successfully (ID: ${newGroup.id}). Adding admin...`);
-  await addAdminToGroupInternal(newGroup, adminAddress);
+  logger.info(`Group "${groupName}" created successfully (ID: ${newGroup.id}). Adding admins...`);
+  for (const adminAddress of adminAddresses) {
+    await addAdminToGroupInternal(client, newGroup, adminAddress, doNotAddInboxIds);
+  }
   return newGroup;
 }
 
-// Exported function to find or create the CONFESS group
-export async function findOrCreateConfessGroup(client: Client): Promise<Group> {
-  log(`[INFO] Finding or creating CONFESS group...`);
+// Exported function to find or create the CONFESS group. Pass the ID it had last time so a
+// renamed group is still found, and the do-not-add list so admins who left aren't added back;
+// the caller should save the returned group's ID.
+export async function findOrCreateConfessGroup(
+  client: BotClient,
+  settings: ConfessGroupSettings,
+  adminAddresses: string[],
+  saved: SavedGroupState = {}
+): Promise<BotGroup> {
+  logger.info(`Finding or creating CONFESS group...`);
 
-  const confessGroup = await findOrCreateGroupByNameInternal(
-    client,
-    CONFESS_GROUP_NAME,
-    "Anonymous confessions for Base Summit 2025",
-    BASE_SUMMIT_ADMIN_ADDRESS
-  );
+  const confessGroup = await findOrCreateGroupInternal(client, settings, adminAddresses, saved);
 
-  log(`[INFO] CONFESS group processed.`);
+  logger.info(`CONFESS group processed.`);
   return confessGroup;
-}
\ No newline at end of file
+}
+
+export async function isGroupMember(group: BotGroup, inboxId: string): Promise<boolean> {
+  const members = await group.members();
+  return members.some((member) => isSameString(member.inboxId, inboxId));
+}
+
+// Adds the inbox to the group unless it's already a member. Returns true if it was added.
+export async function addMemberIfMissing(group: BotGroup, inboxId: string): Promise<boolean> {
+  if (await isGroupMember(group, inboxId)) {
+    return false;
+  }
+
+  logger.info(`Adding new member ${inboxId} to ${group.name}...`);
+  await group.addMembers([inboxId]);
+  metrics.memberAdds.inc();
+  logger.info(`Added ${inboxId} to ${group.name}`);
+  return true;
+}
+
+// Removes the inbox from the group if it's a member. Returns true if it was removed.
+export async function removeMemberIfPresent(group: BotGroup, inboxId: string): Promise<boolean> {
+  if (!(await isGroupMember(group, inboxId))) {
+    return false;
+  }
+
+  logger.info(`Removing member ${inboxId} from ${group.name}...`);
+  await group.removeMembers([inboxId]);
+  logger.info(`Removed ${inboxId} from ${group.name}`);
+  return true;
+}
+
+// DMs every admin: group super admins and the inboxes behind the configured admin addresses
+export async function notifyAdmins(client: BotClient, group: BotGroup, adminAddresses: string[], text: string) {
+  const inboxIds = new Set(group.superAdmins.map((inboxId) => inboxId.toLowerCase()));
+  for (const address of adminAddresses) {
+    const inboxId = await resolveInboxId(client, address);
+    if (inboxId) inboxIds.add(inboxId.toLowerCase());
+  }
+  inboxIds.delete(client.inboxId.toLowerCase());
+
+  for (const inboxId of inboxIds) {
+    try {
+      await sendDirectMessage(client, inboxId, text);
+    } catch (e) {
+      logger.error(`Failed to notify admin ${inboxId}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import fs from "fs/promises";
+import http from "http";
+import { timingSafeEqual } from "crypto";
+import type { BotServices } from "./commands/index.js";
+import type { GroupGame } from "./groups.js";
+import { buildHints } from "./game/hints.js";
+import { getActiveConfessions, getQueuedConfessions, getRoundMode } from "./game/rounds.js";
+import { DEFAULT_LEADERBOARD_SIZE, formatPlayerName, getLeaderboard } from "./game/scoring.js";
+import { logger } from "./helpers/logger.js";
+import { formatMetrics } from "./helpers/metrics.js";
+import type { StreamHealth } from "./stream.js";
+import type { GameState } from "./store/index.js";
+
+// The dashboard page lives at the repo root, next to src/ and dist/
+const DASHBOARD_PATH = new URL("../index.html", import.meta.url);
+// Keeps idle proxies from closing the event feed
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const MAX_LEADERBOARD_SIZE = 100;
+
+export type StatusServerConfig = {
+  port: number;
+  // Required for /api/admin/*; those endpoints are off when it's not set
+  adminToken?: string;
+};
+
+// Reads STATUS_PORT (the server is off when it's not set) and STATUS_ADMIN_TOKEN
+export function getStatusServerConfigFromEnv(): StatusServerConfig | undefined {
+  if (!process.env.STATUS_PORT) {
+    return undefined;
+  }
+  const port = Number(process.env.STATUS_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid STATUS_PORT "${process.env.STATUS_PORT}". Expected a port number`);
+  }
+  return { port, adminToken: process.env.STATUS_ADMIN_TOKEN || undefined };
+}
+
+// What anyone in the group could already see: open confessions and revealed hints, never who confessed
+export function getPublicGameView(state: GameState, { rules, messages }: Pick<BotServices, "rules" | "messages">) {
+  // Hints read the same as in the group chat
+  const t = messages.translator();
+  return {
+    mode: state.mode ?? "confessions",
+    open: getActiveConfessions(state).map((confession) => ({
+      id: confession.id,
+      mode: getRoundMode(confession),
+      question: confession.question,
+      statements: confession.statements,
+      wrongGuesses: confession.incorrectGuesses,
+      maxWrongGuesses: rules.maxIncorrectGuesses,
+      hints: buildHints(confession)
+        .slice(0, confession.hintsRevealed)
+        .map((hint) => t(hint.key, hint.vars)),
+      spicyVotes: confession.spicyVotes?.length ?? 0,
+      // Two Truths and a Lie: how many have voted, not what they picked
+      lieVotes: confession.votes?.length,
+      activatedAt: confession.activatedAt,
+      endsAt: confession.endsAt,
+    })),
+    queueLength: getQueuedConfessions(state).length,
+  };
+}
+
+export function getPublicLeaderboard(state: GameState, size: number) {
+  return getLeaderboard(state, size).map((player, i) => ({
+    rank: i + 1,
+    name: formatPlayerName(player),
+    points: player.points,
+    correctGuesses: player.correctGuesses,
+  }));
+}
+
+// Helper to check the admin token from an "Authorization: Bearer" header or a ?token= parameter
+const hasAdminToken = (req: http.IncomingMessage, url: URL, adminToken: string) => {
+  const header = req.headers.authorization ?? "";
+  const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : url.searchParams.get("token") ?? "";
+  const a = Buffer.from(given);
+  const b = Buffer.from(adminToken);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+};
+
+// Serves the dashboard, a health check, read-only game state and a Server-Sent Events feed of
+// game events. Admin endpoints need STATUS_ADMIN_TOKEN. Game endpoints are about the group
+// given with ?group=<id>, or the first group.
+export function startStatusServer(
+  games: GroupGame[],
+  health: StreamHealth,
+  { port, adminToken }: StatusServerConfig
+) {
+  const startedAt = games[0].services.now().toISOString();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const groupId = url.searchParams.get("group");
+    const game = groupId ? games.find((g) => g.id === groupId) : games[0];
+    if (!game) {
+      sendJson(res, 404, { error: `Unknown group "${groupId}"` });
+      return;
+    }
+    const { services } = game;
+
+    try {
+      switch (url.pathname) {
+        case "/":
+        case "/index.html": {
+          const html = await fs.readFile(DASHBOARD_PATH, "utf-8");
+          res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+          res.end(html);
+          return;
+        }
+        case "/health":
+          sendJson(res, health.connected ? 200 : 503, { ...health, startedAt });
+          return;
+        case "/metrics":
+          res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+          res.end(formatMetrics());
+          return;
+        case "/api/groups":
+          sendJson(res, 200, games.map((g) => ({ id: g.id, name: g.group.name })));
+          return;
+        case "/api/game":
+          sendJson(res, 200, getPublicGameView(await services.store.read(), services));
+          return;
+        case "/api/leaderboard": {
+          const requested = Number(url.searchParams.get("count") ?? DEFAULT_LEADERBOARD_SIZE);
+          const size = Number.isInteger(requested) && requested > 0
+            ? Math.min(requested, MAX_LEADERBOARD_SIZE)
+            : DEFAULT_LEADERBOARD_SIZE;
+          sendJson(res, 200, getPublicLeaderboard(await services.store.read(), size));
+          return;
+        }
+        case "/api/events": {
+          res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-store",
+            Connection: "keep-alive",
+          });
+          res.write("retry: 5000\n\n");
+          const unsubscribe = services.events.subscribe((event) => {
+            res.write(`event: game\ndata: ${JSON.stringify(event)}\n\n`);
+          });
+          const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+          req.on("close", () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+          });
+          return;
+        }
+        case "/api/admin/queue": {
+          if (!adminToken) {
+            sendJson(res, 404, { error: "Admin endpoints are disabled. Set STATUS_ADMIN_TOKEN to enable them." });
+            return;
+          }
+          if (!hasAdminToken(req, url, adminToken)) {
+            sendJson(res, 401, { error: "Invalid admin token" });
+            return;
+          }
+          const state = await services.store.read();
+          sendJson(res, 200, {
+            queued: getQueuedConfessions(state).map((confession, i) => ({
+              id: confession.id,
+              position: i + 1,
+              question: confession.question,
+              timestamp: confession.timestamp,
+            })),
+            pendingReview: state.pendingSubmissions.map(({ id, kind, text, timestamp }) => ({ id, kind, text, timestamp })),
+            bannedCount: state.bannedInboxIds.length,
+          });
+          return;
+        }
+        default:
+          sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      logger.error(`Status server failed on ${url.pathname}: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal error" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  server.listen(port, () => {
+    logger.info(`Status server listening on port ${port}`);
+  });
+  return server;
+}
@@ -0,0 +1,62 @@
+import { getDataFilePath, getDbPath } from "../helpers/client.js";
+import { logger } from "../helpers/logger.js";
+import type { Sealer } from "../helpers/sealer.js";
+import { createJsonGameStore } from "./jsonStore.js";
+import { createMemoryGameStore } from "./memoryStore.js";
+import { createSealedGameStore } from "./sealedStore.js";
+import type { GameStore } from "./types.js";
+
+export type {
+  Confession,
+  ConfessionStatus,
+  GameModeId,
+  GameState,
+  GameStore,
+  GuessAttempt,
+  LieVote,
+  PendingSubmission,
+  PlayerStats,
+  Pseudonym,
+} from "./types.js";
+export { migrateLegacyGameFile } from "./legacy.js";
+export { createMemoryGameStore } from "./memoryStore.js";
+
+const GAME_STORE_BACKENDS = ["json", "sqlite", "memory"] as const;
+export type GameStoreBackend = (typeof GAME_STORE_BACKENDS)[number];
+
+// Creates the game store selected by the GAME_STORE env variable (defaults to "json").
+// Persistent backends live next to the XMTP database on the data volume, in files named
+// after `name`. Given a sealer, they keep who confessed what encrypted.
+export async function createGameStore(
+  env: string,
+  backend: string = process.env.GAME_STORE ?? "json",
+  name: string = "game",
+  sealer?: Sealer
+): Promise<GameStore> {
+  if (!GAME_STORE_BACKENDS.includes(backend as GameStoreBackend)) {
+    throw new Error(
+      `Invalid GAME_STORE "${backend}". Expected one of: ${GAME_STORE_BACKENDS.join(", ")}`
+    );
+  }
+
+  // Nothing is at rest in memory, so only the persistent backends need sealing
+  const seal = (store: GameStore) => (sealer ? createSealedGameStore(store, sealer) : store);
+
+  switch (backend as GameStoreBackend) {
+    case "sqlite": {
+      const dbPath = getDbPath(env, name);
+      logger.info(`Using SQLite game store: ${dbPath}`);
+      // Loaded lazily so the native module is only required when this backend is used
+      const { createSqliteGameStore } = await import("./sqliteStore.js");
+      return seal(await createSqliteGameStore(dbPath));
+    }
+    case "memory":
+      logger.info("Using in-memory game store. Game state will not survive a restart.");
+      return createMemoryGameStore();
+    case "json": {
+      const filePath = getDataFilePath(env, `${name}.json`);
+      logger.info(`Using JSON game store: ${filePath}`);
+      return seal(await createJsonGameStore(filePath));
+    }
+  }
+}
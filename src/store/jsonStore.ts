@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+import { createSerialQueue } from "./queue.js";
+import { createEmptyGameState, type GameState, type GameStore } from "./types.js";
+
+// Reads the state file, treating a missing file as a fresh game
+async function readStateFile(filePath: string): Promise<GameState> {
+  try {
+    const raw = await fs.readFile(filePath, "utf-8");
+    return { ...createEmptyGameState(), ...JSON.parse(raw) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return createEmptyGameState();
+    }
+    throw error;
+  }
+}
+
+// Writes to a temp file, flushes it to disk and renames it over the target, so a crash
+// mid-write leaves either the old or the new file, never a truncated one
+async function writeStateFile(filePath: string, state: GameState) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.open(tempPath, "w");
+  try {
+    await handle.writeFile(JSON.stringify(state, null, 2));
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tempPath, filePath);
+}
+
+// Stores the game state as a single JSON document
+export const createJsonGameStore = async (filePath: string): Promise<GameStore> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const enqueue = createSerialQueue();
+
+  return {
+    read: () => enqueue(() => readStateFile(filePath)),
+    update: (mutate) =>
+      enqueue(async () => {
+        const state = await readStateFile(filePath);
+        const result = await mutate(state);
+        await writeStateFile(filePath, state);
+        return result;
+      }),
+    close: async () => {},
+  };
+};
@@ -0,0 +1,74 @@
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "../helpers/logger.js";
+import type { Confession, GameStore } from "./types.js";
+
+// Where the first version of the bot kept confessions, in plain text inside the repo
+export const LEGACY_GAME_FILE = path.join(process.cwd(), "src", "game.json");
+
+// One confession in the legacy format. Only the self-declared name was kept, not who sent it.
+type LegacyQuestion = {
+  question: string;
+  answer?: string;
+  isComplete?: boolean;
+  incorrectGuesses?: number;
+  timestamp?: string;
+};
+
+const isLegacyQuestion = (value: unknown): value is LegacyQuestion =>
+  typeof value === "object" && value !== null && typeof (value as LegacyQuestion).question === "string";
+
+// Moves confessions from the legacy game file into the store, then deletes the file so no
+// plain-text answers stay behind. Without the file there's nothing to do, so this only ever
+// runs once. Legacy confessions don't say who sent them, so they come in as ended rounds
+// rather than playable ones. Returns how many were moved.
+export async function migrateLegacyGameFile(
+  store: GameStore,
+  filePath: string = LEGACY_GAME_FILE,
+  now: Date = new Date()
+): Promise<number> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+
+  // A file that can't be read is left alone so nothing is lost
+  let questions: LegacyQuestion[];
+  try {
+    const parsed = JSON.parse(raw);
+    questions = parsed?.questions ?? [];
+    if (!Array.isArray(questions) || !questions.every(isLegacyQuestion)) {
+      throw new Error("expected { questions: [{ question, answer, isComplete, ... }] }");
+    }
+  } catch (error) {
+    throw new Error(`Could not migrate ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  await store.update((gameData) => {
+    for (const legacy of questions) {
+      const confession: Confession = {
+        id: gameData.nextConfessionId++,
+        question: legacy.question,
+        answer: legacy.answer,
+        confessorInboxId: "",
+        confessorAddress: "",
+        // Unfinished legacy rounds can't go on without knowing who to score or notify
+        status: legacy.isComplete && (legacy.incorrectGuesses ?? 0) < 5 ? "solved" : "expired",
+        incorrectGuesses: legacy.incorrectGuesses ?? 0,
+        guesses: [],
+        hintsRevealed: 0,
+        timestamp: legacy.timestamp ?? now.toISOString(),
+        endedAt: now.toISOString(),
+      };
+      gameData.questions.push(confession);
+    }
+  });
+  await fs.rm(filePath);
+  logger.info(`Moved ${questions.length} confessions from ${filePath} into the game store and deleted the file`);
+  return questions.length;
+}
@@ -0,0 +1,21 @@
+import { createSerialQueue } from "./queue.js";
+import { createEmptyGameState, type GameState, type GameStore } from "./types.js";
+
+// Keeps the game state in process memory only. Meant for tests and local experiments.
+export const createMemoryGameStore = (initialState: GameState = createEmptyGameState()): GameStore => {
+  let state = structuredClone(initialState);
+  const enqueue = createSerialQueue();
+
+  return {
+    read: async () => structuredClone(state),
+    update: (mutate) =>
+      enqueue(async () => {
+        // Work on a copy so a throwing mutator leaves the stored state untouched
+        const draft = structuredClone(state);
+        const result = await mutate(draft);
+        state = draft;
+        return result;
+      }),
+    close: async () => {},
+  };
+};
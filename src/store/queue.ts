@@ -0,0 +1,11 @@
+// Runs async tasks strictly one after another, in the order they were queued.
+// A failing task rejects only its own caller; the queue keeps going.
+export const createSerialQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+};
@@ -0,0 +1,149 @@
+import type { Sealer } from "../helpers/sealer.js";
+import type { Confession, GameState, GameStore, GuessAttempt, PendingSubmission, PlayerStats } from "./types.js";
+
+// Who made a confession or sent a submission. These are what must not be readable at rest.
+// A Two Truths and a Lie round's lie is its answer, so it's sealed with them.
+type ConfessorIdentity = Pick<Confession, "answer" | "confessorInboxId" | "confessorAddress" | "lieNumber">;
+type SubmitterIdentity = Pick<PendingSubmission, "submitterInboxId" | "submitterAddress" | "submitterName" | "lieNumber">;
+
+// What older versions stored in plain text and that could point at a confessor: the text of each
+// guess, and per-player confession counts. Dropped on the next write.
+type LegacyGuessAttempt = GuessAttempt & { guess?: string };
+type LegacyPlayerStats = PlayerStats & { confessions?: number; survivedConfessions?: number };
+
+const dropLegacyGuess = ({ guess: _, ...attempt }: LegacyGuessAttempt): GuessAttempt => attempt;
+const dropLegacyCounts = ({ confessions: _, survivedConfessions: __, ...player }: LegacyPlayerStats): PlayerStats =>
+  player;
+
+// Sealed identity -> its decrypted JSON. AES-GCM with a fresh IV never seals the same text to
+// the same value, so this is also how an unchanged identity is recognized and kept as it was.
+type OpenedIdentities = Map<string, string>;
+
+// Helper to decrypt an identity, with a hint at the likely cause when it can't be. Each sealed
+// value is only decrypted the first time it's seen.
+const openIdentity = <T>(sealer: Sealer, opened: OpenedIdentities, sealed: string, what: string): T => {
+  let json = opened.get(sealed);
+  if (json === undefined) {
+    try {
+      json = sealer.open(sealed);
+    } catch {
+      throw new Error(`Could not decrypt ${what}. Was ENCRYPTION_KEY changed?`);
+    }
+    opened.set(sealed, json);
+  }
+  return JSON.parse(json);
+};
+
+// Helper to seal an identity, keeping the entry's current sealed value if the identity in it is
+// the same
+const sealIdentity = (sealer: Sealer, opened: OpenedIdentities, identity: object, current?: string) => {
+  const json = JSON.stringify(identity);
+  if (current !== undefined && opened.get(current) === json) {
+    return current;
+  }
+  const sealed = sealer.seal(json);
+  opened.set(sealed, json);
+  return sealed;
+};
+
+function sealState(state: GameState, sealer: Sealer, opened: OpenedIdentities): GameState {
+  return {
+    ...state,
+    questions: state.questions.map(
+      ({ answer, confessorInboxId, confessorAddress, lieNumber, sealedIdentity, ...rest }) => ({
+        ...rest,
+        guesses: rest.guesses.map(dropLegacyGuess),
+        confessorInboxId: "",
+        confessorAddress: "",
+        sealedIdentity: sealIdentity(
+          sealer,
+          opened,
+          { answer, confessorInboxId, confessorAddress, lieNumber } satisfies ConfessorIdentity,
+          sealedIdentity
+        ),
+      })
+    ),
+    players: Object.fromEntries(
+      Object.entries(state.players).map(([inboxId, player]) => [inboxId, dropLegacyCounts(player)])
+    ),
+    pendingSubmissions: state.pendingSubmissions.map(
+      ({ submitterInboxId, submitterAddress, submitterName, lieNumber, sealedIdentity, ...rest }) => ({
+        ...rest,
+        submitterInboxId: "",
+        sealedIdentity: sealIdentity(
+          sealer,
+          opened,
+          { submitterInboxId, submitterAddress, submitterName, lieNumber } satisfies SubmitterIdentity,
+          sealedIdentity
+        ),
+      })
+    ),
+  };
+}
+
+// Entries without a sealed identity were written before sealing; they're sealed on the next write.
+// Opened entries keep their sealed value so an update that doesn't touch them can reuse it.
+function openState(state: GameState, sealer: Sealer, opened: OpenedIdentities): GameState {
+  return {
+    ...state,
+    questions: state.questions.map((confession) =>
+      confession.sealedIdentity
+        ? {
+            ...confession,
+            ...openIdentity<ConfessorIdentity>(
+              sealer,
+              opened,
+              confession.sealedIdentity,
+              `confession #${confession.id}`
+            ),
+          }
+        : confession
+    ),
+    pendingSubmissions: state.pendingSubmissions.map((submission) =>
+      submission.sealedIdentity
+        ? {
+            ...submission,
+            ...openIdentity<SubmitterIdentity>(
+              sealer,
+              opened,
+              submission.sealedIdentity,
+              `submission #${submission.id}`
+            ),
+          }
+        : submission
+    ),
+  };
+}
+
+// Helper to forget identities no entry uses any more, e.g. after /reset
+function keepOpenedFor(state: GameState, opened: OpenedIdentities): OpenedIdentities {
+  const kept: OpenedIdentities = new Map();
+  for (const { sealedIdentity } of [...state.questions, ...state.pendingSubmissions]) {
+    const json = sealedIdentity && opened.get(sealedIdentity);
+    if (sealedIdentity && json !== undefined) {
+      kept.set(sealedIdentity, json);
+    }
+  }
+  return kept;
+}
+
+// Wraps a store so answers and the identities of confessors and submitters are encrypted in
+// whatever it writes, and nothing that could give them away is left in plain text. Game logic
+// sees plain values; only the stored copy is sealed. Identities are decrypted once and only
+// sealed again when they change, so the reads and updates made for every message, like the
+// handled-message checks, don't redo the crypto for the whole game.
+export function createSealedGameStore(store: GameStore, sealer: Sealer): GameStore {
+  let opened: OpenedIdentities = new Map();
+  return {
+    read: async () => openState(await store.read(), sealer, opened),
+    update: (mutate) =>
+      store.update(async (stored) => {
+        const state = openState(stored, sealer, opened);
+        const result = await mutate(state);
+        Object.assign(stored, sealState(state, sealer, opened));
+        opened = keepOpenedFor(stored, opened);
+        return result;
+      }),
+    close: () => store.close(),
+  };
+}
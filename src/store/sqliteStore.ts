@@ -0,0 +1,40 @@
+import Database from "better-sqlite3";
+import { createSerialQueue } from "./queue.js";
+import { createEmptyGameState, type GameState, type GameStore } from "./types.js";
+
+// Stores the game state in a SQLite database. The state is kept as one JSON row so the
+// schema doesn't need a migration every time the game grows a new field; SQLite gives
+// us crash-safe writes through its journal.
+export const createSqliteGameStore = async (filePath: string): Promise<GameStore> => {
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.exec(
+    "CREATE TABLE IF NOT EXISTS game_state (id INTEGER PRIMARY KEY CHECK (id = 1), data TEXT NOT NULL)"
+  );
+
+  const selectState = db.prepare<[], { data: string }>("SELECT data FROM game_state WHERE id = 1");
+  const upsertState = db.prepare<[string]>(
+    "INSERT INTO game_state (id, data) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data"
+  );
+  const enqueue = createSerialQueue();
+
+  const readState = (): GameState => {
+    const row = selectState.get();
+    return row ? { ...createEmptyGameState(), ...JSON.parse(row.data) } : createEmptyGameState();
+  };
+
+  return {
+    read: () => enqueue(async () => readState()),
+    update: (mutate) =>
+      enqueue(async () => {
+        const state = readState();
+        const result = await mutate(state);
+        upsertState.run(JSON.stringify(state));
+        return result;
+      }),
+    close: () =>
+      enqueue(async () => {
+        db.close();
+      }),
+  };
+};
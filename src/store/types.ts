@@ -0,0 +1,175 @@
+// One /guess from one player
+export type GuessAttempt = {
+  guesserInboxId: string;
+  // Only the outcome is kept: a guess's text can name the confessor
+  correct: boolean;
+  // Wrong, but within a typo or two of the answer
+  close?: boolean;
+  timestamp: string;
+};
+
+// Which game a round is part of. Rounds saved before there were modes are confessions.
+export type GameModeId = "confessions" | "two-truths";
+
+// One player's /lie vote in a Two Truths and a Lie round. A new vote replaces their old one.
+export type LieVote = {
+  inboxId: string;
+  address?: string;
+  name?: string;
+  // 1, 2 or 3
+  choice: number;
+  timestamp: string;
+};
+
+// queued: waiting for the current round to end; active: up for guessing (only one at a time);
+// solved: someone guessed it; expired: nobody did in time; revealed: the answer was shown
+export type ConfessionStatus = "queued" | "active" | "solved" | "expired" | "revealed";
+
+// A single round of the game: a confession, or a Two Truths and a Lie
+export type Confession = {
+  // Short, never-reused number shown as #id
+  id: number;
+  mode?: GameModeId;
+  // What the group sees: the confession, or the three statements
+  question: string;
+  // The confessor's Basename/ENS name at submission time, if they have one
+  answer?: string;
+  confessorInboxId: string;
+  confessorAddress: string;
+  status: ConfessionStatus;
+  incorrectGuesses: number;
+  guesses: GuessAttempt[];
+  // Optional hint written by the confessor, shown before the generated ones
+  customHint?: string;
+  hintsRevealed: number;
+  timestamp: string;
+  // Round timing, set when the confession becomes active. Stored so timers survive a restart.
+  activatedAt?: string;
+  endsAt?: string;
+  reminderSent?: boolean;
+  endedAt?: string;
+  // Group messages that showed this confession; a reply or reaction to one of them is about it
+  messageIds?: string[];
+  // Inboxes that reacted 🌶️ to it, for the spiciest confession tally
+  spicyVotes?: string[];
+  // Two Truths and a Lie: the statements as numbered for voting, which one is the lie, and the votes
+  statements?: string[];
+  lieNumber?: number;
+  votes?: LieVote[];
+  // Nobody found the submitter out: the wrong-guess limit or the timer ran out, or nobody
+  // spotted the lie. Kept with the round rather than the player so it stays sealed.
+  survived?: boolean;
+  // The message that saved the round (the submission, or /approve in review mode) and the admin
+  // message that ended it early, so a message handled again after a restart doesn't save or end
+  // a round twice
+  sourceMessageId?: string;
+  closedByMessageId?: string;
+  // The /guess and /lie messages counted on it, so none of them counts twice
+  answerMessageIds?: string[];
+  // Only in persistent stores: answer, confessorInboxId, confessorAddress and lieNumber,
+  // encrypted. The plain fields are blanked there. See sealedStore.ts.
+  sealedIdentity?: string;
+};
+
+// A /confess or /shh waiting for an admin to approve it (review mode only)
+export type PendingSubmission = {
+  id: number;
+  kind: "confession" | "shh";
+  text: string;
+  customHint?: string;
+  // Confessions only: the game the round is for, and for Two Truths and a Lie its statements and lie
+  mode?: GameModeId;
+  statements?: string[];
+  lieNumber?: number;
+  submitterInboxId: string;
+  // Confessions only: the identity the answer is bound to, captured at submission time
+  submitterAddress?: string;
+  submitterName?: string;
+  // The message that submitted it, so a message handled again isn't queued twice
+  sourceMessageId?: string;
+  timestamp: string;
+  // Only in persistent stores: the submitter fields above and lieNumber, encrypted
+  sealedIdentity?: string;
+};
+
+// Running totals for one player, keyed by inbox ID in GameState.players
+export type PlayerStats = {
+  inboxId: string;
+  // Last known address and name, kept for display and /stats lookups
+  address?: string;
+  name?: string;
+  points: number;
+  correctGuesses: number;
+  wrongGuesses: number;
+};
+
+// An anonymous /shh sender's name for one session. Who is behind it is only kept sealed.
+export type Pseudonym = {
+  // Unique within the game, e.g. 3 for "Anon Pepper #3"
+  number: number;
+  word: string;
+  name: string;
+  sealedInboxId: string;
+  createdAt: string;
+  // /shh picks a new pseudonym and /whisper stops reaching this one after this time
+  expiresAt: string;
+};
+
+// Everything the game persists between messages and restarts
+export type GameState = {
+  // The group chat's conversation ID, saved once the bot has found or created it, so a renamed
+  // group or a stranger's group with the same name doesn't lead it astray
+  groupConversationId?: string;
+  questions: Confession[];
+  players: Record<string, PlayerStats>;
+  // Inboxes whose messages the bot ignores
+  bannedInboxIds: string[];
+  // Inboxes that left with /leave. The bot won't add them to the group again until they /join.
+  doNotAddInboxIds: string[];
+  pendingSubmissions: PendingSubmission[];
+  nextConfessionId: number;
+  nextSubmissionId: number;
+  // Recently handled message IDs, so a replayed or redelivered message isn't handled twice
+  processedMessageIds: string[];
+  // Messages whose one-off effect was applied: a hint, reset, announcement, retraction or relayed
+  // /shh or /whisper. Checked so one handled again after a restart doesn't repeat it.
+  actionMessageIds: string[];
+  // Send time of the newest handled message; catch-up after a reconnect starts here
+  lastProcessedAtNs?: number;
+  // Locale each player picked with /lang, by inbox ID. Players without one get the group's.
+  languages: Record<string, string>;
+  // Group each player's DMs go to, picked with /join, by inbox ID. Only the first group's
+  // store keeps these; players without one get the first group.
+  currentGroups: Record<string, string>;
+  pseudonyms: Pseudonym[];
+  nextPseudonymNumber: number;
+  // The game new submissions are for, picked by an admin with /mode. Confessions when unset.
+  mode?: GameModeId;
+};
+
+export const createEmptyGameState = (): GameState => ({
+  questions: [],
+  players: {},
+  bannedInboxIds: [],
+  doNotAddInboxIds: [],
+  pendingSubmissions: [],
+  nextConfessionId: 1,
+  nextSubmissionId: 1,
+  processedMessageIds: [],
+  actionMessageIds: [],
+  languages: {},
+  currentGroups: {},
+  pseudonyms: [],
+  nextPseudonymNumber: 1,
+});
+
+export interface GameStore {
+  // Returns a snapshot of the current state; mutating it has no effect on the store
+  read(): Promise<GameState>;
+  // Applies `mutate` to the latest state and persists the result. Updates run one at a
+  // time, so concurrent callers never overwrite each other. If `mutate` throws, nothing
+  // is written.
+  update<T>(mutate: (state: GameState) => T | Promise<T>): Promise<T>;
+  // Releases any underlying resources (file handles, database connections)
+  close(): Promise<void>;
+}
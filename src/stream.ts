@@ -1,476 +1,356 @@
-import { Client, DecodedMessage, Group } from "@xmtp/node-sdk";
-import { getAddressFromXMTPIdentity, getTruncatedAddress, isSameString, log } from "./helpers/utils.js";
-import fs from 'fs/promises';
-import path from 'path';
+import { ContentTypeReaction, type Reaction } from "@xmtp/content-type-reaction";
+import type { Reply } from "@xmtp/content-type-reply";
+import type { BotClient, BotMessage } from "./helpers/client.js";
+import { isDmConversation, isSameString } from "./helpers/utils.js";
+import { addLogContext, logger, withLogContext } from "./helpers/logger.js";
+import { metrics } from "./helpers/metrics.js";
+import { createDefaultCommandRegistry, dispatchCommand, formatInstructions } from "./commands/index.js";
+import { isGroupMember } from "./offsite.js";
+import { isBanned } from "./game/bans.js";
+import { getPlayerLocale } from "./game/languages.js";
+import { recordSpicyReaction } from "./game/reactions.js";
+import { findGroupGameByConversation, getCurrentGroupGame, type GroupGame } from "./groups.js";
+import type { BotServices } from "./commands/index.js";
 
 // --- Retry Logic Constants and Helper ---
-const MAX_RETRIES = 6; // Max number of retry attempts
-const RETRY_DELAY_MS = 10000; // Delay between retries in milliseconds (10 seconds)
-
-// Helper function to pause execution
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-// Helper function to parse confession and username
-function parseConfession(content: string): { confession: string; username: string } | null {
-  // Find the last @ symbol in the content
-  const atIndex = content.lastIndexOf('@');
-  if (atIndex === -1) return null;
-  
-  // Get everything before the @ as the confession and trim trailing whitespace
-  const confession = content.substring(0, atIndex).trimEnd();
-  // Get everything after the @ as the username
-  const username = content.slice(atIndex + 1).trim();
-  
-  // Validate that we have both parts
-  if (!confession || !username) return null;
-  
-  return { confession, username };
-}
+// Reconnect delays double from initialMs up to maxMs, with jitter so restarts don't line up
+export type StreamBackoff = { initialMs: number; maxMs: number };
+
+export const DEFAULT_STREAM_BACKOFF: StreamBackoff = { initialMs: 1_000, maxMs: 5 * 60_000 };
+// How many handled message IDs are kept for deduplication
+const MAX_PROCESSED_MESSAGE_IDS = 1000;
+// Catch-up starts this far before the last handled message, since nanosecond timestamps lose
+// precision as numbers. The overlap is skipped as already handled.
+const CATCH_UP_OVERLAP_NS = 1_000_000_000;
+
+// Helper function to pause execution; resolves early if the listener is stopped
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Helper to pick the delay before reconnect attempt number `attempt` (0 after a clean stream end)
+const getRetryDelay = (attempt: number, { initialMs, maxMs }: StreamBackoff) => {
+  const delay = Math.min(maxMs, initialMs * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
 
-// Helper function to check if there's an active game
-async function hasActiveGame(): Promise<boolean> {
-  try {
-    const gamePath = path.join(process.cwd(), 'src', 'game.json');
-    const gameData = JSON.parse(await fs.readFile(gamePath, 'utf-8'));
-    
-    // Check if there's any question that's not complete
-    return gameData.questions.some((q: any) => !q.isComplete);
-  } catch (error) {
-    log(`[ERROR] Failed to check active game: ${error}`);
-    return false;
-  }
-}
+// --- End of Retry Logic ---
 
-// Helper function to save confession to game.json
-async function saveConfession(confession: string, username: string) {
-  try {
-    const gamePath = path.join(process.cwd(), 'src', 'game.json');
-    const gameData = JSON.parse(await fs.readFile(gamePath, 'utf-8'));
-    
-    gameData.questions.push({
-      question: confession,
-      answer: username,
-      isComplete: false,
-      incorrectGuesses: 0,
-      timestamp: new Date().toISOString()
-    });
-    
-    await fs.writeFile(gamePath, JSON.stringify(gameData, null, 2));
-    return true;
-  } catch (error) {
-    log(`[ERROR] Failed to save confession: ${error}`);
-    return false;
-  }
-}
+// Content types the listener handles; anything else is skipped
+const SUPPORTED_CONTENT_TYPES = ["text", "reply", "reaction"];
 
-// Add type definition for checkGuess return value
-type CheckGuessResult = {
-  correct: boolean;
-  confession?: string;
-  error?: string;
-  nextConfession?: string;
-  isComplete: boolean;
+// Helper to get what a text message or a text reply says and, for a reply, which message it
+// answers. Replies with anything but text have nothing to read.
+const readText = (message: BotMessage): { text: string; replyToMessageId?: string } | undefined => {
+  if (message.contentType?.typeId === "reply") {
+    const reply = message.content as Reply | undefined;
+    return typeof reply?.content === "string" ? { text: reply.content, replyToMessageId: reply.reference } : undefined;
+  }
+  return { text: message.content?.toString() || "" };
 };
 
-// Helper function to check guess
-async function checkGuess(guess: string): Promise<CheckGuessResult> {
-  try {
-    const gamePath = path.join(process.cwd(), 'src', 'game.json');
-    const gameData = JSON.parse(await fs.readFile(gamePath, 'utf-8'));
-    
-    // Find the oldest incomplete confession
-    const nextConfession = gameData.questions.find((q: any) => !q.isComplete);
-    if (!nextConfession) {
-      return { correct: false, error: "No game found", isComplete: false };
-    }
+// Whether a message was already handled, e.g. when catch-up sees it again. One stream serves
+// every group, so this bookkeeping lives in the first group's store.
+async function isHandled(services: BotServices, message: BotMessage) {
+  const { processedMessageIds } = await services.store.read();
+  return processedMessageIds.includes(message.id);
+}
 
-    // Remove @ symbol from guess if present and normalize both answer and guess
-    const normalizedGuess = guess.replace('@', '').toLowerCase();
-    const normalizedAnswer = nextConfession.answer.toLowerCase();
-    const isCorrect = normalizedAnswer === normalizedGuess;
-    
-    if (isCorrect) {
-      // Update isComplete to true when guessed correctly
-      nextConfession.isComplete = true;
-      await fs.writeFile(gamePath, JSON.stringify(gameData, null, 2));
-    } else {
-      // Increment incorrect guesses counter
-      nextConfession.incorrectGuesses = (nextConfession.incorrectGuesses || 0) + 1;
-      
-      // If we've reached 5 incorrect guesses, mark as complete
-      if (nextConfession.incorrectGuesses >= 5) {
-        nextConfession.isComplete = true;
-        await fs.writeFile(gamePath, JSON.stringify(gameData, null, 2));
-        return { 
-          correct: false, 
-          error: "Game over! 5 incorrect guesses reached. The confessor remains anonymous. A new game can now begin!",
-          isComplete: false
-        };
-      }
-      
-      await fs.writeFile(gamePath, JSON.stringify(gameData, null, 2));
+// Records a message as handled once its handler has finished. If the bot stops halfway, the
+// message stays unrecorded and catch-up handles it again after the restart. Handlers that
+// change the game store the message's ID in the same update as the change and skip it if it's
+// there (see game/replays.ts and the sourceMessageId fields); the rest, like /join or /ban, come
+// out the same when run twice. A post that's its own effect, like /announce, is claimed
+// before it's sent, so it's dropped rather than repeated.
+async function markHandled(services: BotServices, message: BotMessage) {
+  await services.store.update((state) => {
+    if (state.processedMessageIds.includes(message.id)) {
+      return;
     }
-    
-    // Find the next incomplete confession after this one
-    const nextIncompleteConfession = gameData.questions.find((q: any) => !q.isComplete);
-    
-    return {
-      correct: isCorrect,
-      confession: nextConfession.question,
-      nextConfession: nextIncompleteConfession?.question,
-      isComplete: isCorrect || nextConfession.incorrectGuesses >= 5
-    };
-  } catch (error) {
-    log(`[ERROR] Failed to check guess: ${error}`);
-    return { correct: false, error: "Failed to check your guess. Please try again.", isComplete: false };
-  }
+    state.processedMessageIds.push(message.id);
+    if (state.processedMessageIds.length > MAX_PROCESSED_MESSAGE_IDS) {
+      state.processedMessageIds.splice(0, state.processedMessageIds.length - MAX_PROCESSED_MESSAGE_IDS);
+    }
+    state.lastProcessedAtNs = Math.max(state.lastProcessedAtNs ?? 0, message.sentAtNs);
+  });
 }
 
-// --- End of Retry Logic ---
+// How the message stream is doing, for the /health endpoint
+export type StreamHealth = {
+  connected: boolean;
+  lastMessageAt?: string;
+  retryCount: number;
+};
+
+export const createStreamHealth = (): StreamHealth => ({ connected: false, retryCount: 0 });
 
 export async function listenForMessages(
-  client: Client,
-  group: Group
+  client: BotClient,
+  games: GroupGame[],
+  {
+    // Stops the listener once the current stream ends instead of reopening it
+    signal,
+    health = createStreamHealth(),
+    backoff = DEFAULT_STREAM_BACKOFF,
+  }: { signal?: AbortSignal; health?: StreamHealth; backoff?: StreamBackoff } = {}
 ) {
-  let retryCount = 0;
-  // Outer loop for retry mechanism
-  while (retryCount < MAX_RETRIES) {
+  const registry = createDefaultCommandRegistry();
+  // Message bookkeeping and the players' /join choices are kept with the first group
+  const home = games[0].services;
+  // Handles one message from the stream; errors are caught here so the stream keeps going
+  const processMessage = async (message: BotMessage) => {
     try {
-      log(
-        `Starting message stream... (Attempt ${retryCount + 1}/${MAX_RETRIES})`
-      );
-      const stream = await client.conversations.streamAllMessages();
-      log("Message stream started successfully. Waiting for messages...");
-
-      for await (const message of stream) {
-        if (shouldSkip(message, client)) {
-          log(
-            `[DEBUG] Skipping message ${message?.id}: Self-message or non-text content.`
-          );
-          continue;
-        }
-
-        log(`[DEBUG] Message received from: ${message?.senderInboxId}`);
-        log(`[DEBUG] Client inbox ID: ${client.inboxId}`);
-        log(`[DEBUG] Message content type: ${message?.contentType?.typeId}`);
+      const senderInboxId = message?.senderInboxId ?? "";
+      const conversationId = message?.conversationId;
 
-        // Inner try...catch for processing individual messages
-        try {
-          const senderInboxId = message?.senderInboxId ?? "";
-          const conversationId = message?.conversationId;
-
-          if (!conversationId) {
-            log(`[WARN] Skipping message ${message?.id}: Missing conversationId.`);
-            continue;
-          }
-
-          // Get the conversation object
-          const conversation = await client.conversations.getConversationById(
-            conversationId
-          );
+      if (!conversationId) {
+        logger.warn(`Skipping message ${message?.id}: Missing conversationId.`);
+        return;
+      }
 
-          if (!conversation) {
-            log(`[ERROR] Could not find conversation for message ${message?.id} with conversationId ${conversationId}`);
-            continue;
-          }
+      // Get the conversation object
+      const conversation = await client.conversations.getConversationById(
+        conversationId
+      );
 
-          // Handle /guess command
-          const messageContent = message.content?.toString() || "";
-
-          if (messageContent.startsWith('/guess')) {
-            const guess = messageContent.slice('/guess'.length).trim();
-            if (!guess) {
-              await conversation.send(
-                "To make a guess, use the format:\n" +
-                "/guess [username]\n\n" +
-                "Example:\n" +
-                "/guess alice"
-              );
-              continue;
-            }
-            
-            try {
-              log(`[GUESS] User ${senderInboxId} guessed: ${guess}`);
-              const result = await checkGuess(guess);
-              
-              if (result.error) {
-                await conversation.send(result.error);
-
-                // If there's a next confession and this one is complete, broadcast it
-                if (result.nextConfession) {
-                  await group.send(`🌶️🌶️🌶️ Next Confession: "${result.nextConfession}"`);
-                }
-                continue;
-              }
-
-              const address = await getAddressFromXMTPIdentity(client, senderInboxId);
-              const truncatedAddress = getTruncatedAddress(address);
-              
-              if (result.correct) {
-                // Send the confession as a new message
-                await group.send(`🌶️🌶️🌶️ Confession: "${result.confession}"`);
-                // Send the correct guess as a separate message
-                await group.send(`🎉🎉🎉 ${truncatedAddress} correctly guessed who made this confession! 🎉🎉🎉`);
-                log(`[GUESS] User ${truncatedAddress} made a correct guess!`);
-                
-                // If there's a next confession and this one is complete, broadcast it
-                if (result.nextConfession && result.isComplete) {
-                  await group.send(`🌶️🌶️🌶️ Next Confession: "${result.nextConfession}"`);
-                }
-              } else {
-                await conversation.send(`❌ User ${truncatedAddress} made a wrong guess. Try again! Guessed: ${guess}`);
-                // Send the confession as a new message if it hasn't been sent yet
-                await group.send(`🌶️🌶️🌶️ Confession: "${result.confession}"`);
-                // Send the incorrect guess as a separate message
-                // await group.send(`❌ ${senderInboxId} guessed "${guess}" - Not correct, keep trying!`);
-                log(`[GUESS] User ${truncatedAddress} made an incorrect guess`);
-              }
-              continue;
-            } catch (error) {
-              log(`[ERROR] Failed to check guess: ${error}`);
-              await conversation.send("Sorry, I couldn't check your guess. Please try again.");
-              continue;
-            }
-          }
+      if (!conversation) {
+        logger.error(`Could not find conversation for message ${message?.id} with conversationId ${conversationId}`);
+        return;
+      }
 
-          // Handle /confess command
-          if (messageContent.startsWith('/confess')) {
-            log(`[DEBUG] ===== CONFESS COMMAND START =====`);
-            const content = messageContent.slice('/confess'.length).trim();
-            log(`[DEBUG] Raw content: "${content}"`);
-            
-            // Check if user is in the group and add them if not
-            try {
-              const groupMembers = await group.members();
-              const isMember = groupMembers.some(
-                (member: { inboxId: string }) =>
-                  isSameString(member.inboxId, senderInboxId)
-              );
-
-              if (!isMember) {
-                log(`Adding new member ${senderInboxId} to ${group.name}...`);
-                await group.addMembers([senderInboxId]);
-                await conversation.send(`You've been added to the "${group.name}" group. You'll see the chat in your requests when a new message is sent!`);
-              }
-            } catch (e) {
-              log(`[ERROR] Failed to add ${senderInboxId} to ${group.name}: ${e instanceof Error ? e.message : String(e)}`);
-              await conversation.send("Failed to add you to the group. Please try again.");
-              continue;
-            }
-            
-            // If no content provided, send instructions
-            if (!content) {
-              await conversation.send(
-                "To make a confession, use the format:\n" +
-                "/confess [your confession] @[your name]\n\n" +
-                "Example:\n" +
-                "/confess I love pizza @alice"
-              );
-              continue;
-            }
-            
-            const parsed = parseConfession(content);
-            console.log(parsed);
-            log(`[DEBUG] Parsed result: ${JSON.stringify(parsed)}`);
-            
-            if (parsed) {
-              try {
-                log(`[DEBUG] Sending confession to social group`);
-                await group.send(`🌶️🌶️🌶️ New Confession: "${parsed.confession}"`);
-                
-                log(`[DEBUG] Attempting to save confession`);
-                const saved = await saveConfession(parsed.confession, parsed.username);
-                
-                if (saved) {
-                  log(`[DEBUG] Confession saved successfully`);
-                  await conversation.send("Confession saved successfully! Others will try to guess who made it.");
-                } else {
-                  log(`[DEBUG] Failed to save confession`);
-                  await conversation.send("Confession was sent to the group but failed to save. Please try again.");
-                }
-                log(`[DEBUG] ===== CONFESS COMMAND END =====`);
-                continue;
-              } catch (error) {
-                log(`[ERROR] Error processing confession: ${error}`);
-                if (error instanceof Error) {
-                  log(`[ERROR] Error stack: ${error.stack}`);
-                }
-                await conversation.send("Sorry, I couldn't process your confession. Please try again.");
-                continue;
-              }
-            } else {
-              log(`[DEBUG] Invalid confession format`);
-              await conversation.send("Please provide your confession with your basename starting with @. Example: '/confess I like pancakes @yourname'");
-              continue;
-            }
-          }
+      const isDm = isDmConversation(conversation);
 
-          // Handle /shh command
-          if (messageContent.startsWith('/shh')) {
-            const relayMessage = messageContent.slice(4).trim(); // Remove '/shh' and trim whitespace
-            if (relayMessage) {
-              try {
-                await group.send(`🤫 ${relayMessage}`);
-                await conversation.send("Message relayed anonymously!");
-                log(`[RELAY] Anonymous message relayed to social group`);
-                continue;
-              } catch (error) {
-                log(`[ERROR] Failed to relay message: ${error}`);
-                await conversation.send("Sorry, I couldn't relay your message.");
-                continue;
-              }
-            } else {
-              await conversation.send("Please provide a message after /shh");
-              continue;
-            }
-          }
+      // A group chat's messages belong to its game; DMs go to the sender's current group
+      const game = isDm
+        ? await getCurrentGroupGame(games, senderInboxId)
+        : findGroupGameByConversation(games, conversation.id);
+      if (!game) {
+        logger.debug(`Skipping message ${message?.id}: Not a confession group.`);
+        return;
+      }
+      const { group, services } = game;
+      addLogContext({ group: game.id });
+      if (await isBanned(services.store, senderInboxId)) {
+        logger.debug(`Skipping message ${message?.id}: Sender is banned.`);
+        return;
+      }
 
-          // Handle /current command
-          if (messageContent.startsWith('/current')) {
-            try {
-              const gamePath = path.join(process.cwd(), 'src', 'game.json');
-              const gameData = JSON.parse(await fs.readFile(gamePath, 'utf-8'));
-              
-              // Find the oldest incomplete confession
-              const currentConfession = gameData.questions.find((q: any) => !q.isComplete);
-              
-              if (currentConfession) {
-                await conversation.send(`🌶️🌶️🌶️ Current Confession to Guess: "${currentConfession.question}"`);
-              } else {
-                await conversation.send("There is no active confession to guess right now. Use /confess to start a new one!");
-              }
-              continue;
-            } catch (error) {
-              log(`[ERROR] Failed to get current confession: ${error}`);
-              await conversation.send("Sorry, I couldn't retrieve the current confession. Please try again.");
-              continue;
-            }
+      if (message.contentType?.typeId === "reaction") {
+        await handleReaction(services, message, isDm);
+        return;
+      }
+      const read = readText(message);
+      if (!read) {
+        logger.debug(`Skipping message ${message.id}: Reply without text.`);
+        return;
+      }
+      // Reply in the sender's language in a DM; the group chat gets the group's
+      const locale = isDm ? await getPlayerLocale(services, senderInboxId) : services.messages.defaultLocale;
+      const t = services.messages.translator(locale);
+
+      const handled = await dispatchCommand(registry, read.text, {
+        ...services,
+        client,
+        group,
+        games,
+        message,
+        conversation,
+        senderInboxId,
+        isDm,
+        locale,
+        t,
+        replyToMessageId: read.replyToMessageId,
+        reply: async (text: string) => {
+          try {
+            await conversation.send(text);
+          } catch (error) {
+            metrics.sendFailures.inc({ kind: "reply" });
+            throw error;
           }
-
-          // Explicitly check if the conversation is a Group
-          if (conversation instanceof Group) {
-            log(`[DEBUG] Skipping message ${message?.id}: Is a group chat.`);
-            continue; // Skip group messages
+        },
+        react: async (emoji: string) => {
+          const reaction: Reaction = {
+            reference: message.id,
+            referenceInboxId: senderInboxId,
+            action: "added",
+            content: emoji,
+            schema: "unicode",
+          };
+          try {
+            await conversation.send(reaction, ContentTypeReaction);
+          } catch (error) {
+            metrics.sendFailures.inc({ kind: "reaction" });
+            throw error;
           }
+        },
+      });
+      if (handled) {
+        return;
+      }
 
-          // --- Proceed only if it's confirmed to be a DM ---
-          log(`[DEBUG] Message ${message?.id} is a DM. Proceeding with processing.`);
+      // Explicitly check if the conversation is a Group
+      if (!isDm) {
+        logger.debug(`Skipping message ${message?.id}: Is a group chat.`);
+        return; // Skip group messages
+      }
 
-          let addedToConfess = false;
-          let alreadyInConfess = false;
+      // --- Proceed only if it's confirmed to be a DM ---
+      logger.debug(`Message ${message?.id} is a DM. Proceeding with processing.`);
 
-          // Check and add to Confess group
-          try {
-            const confessMembers = await group.members();
-            const isMemberConfess = confessMembers.some(
-              (member: { inboxId: string }) =>
-                isSameString(member.inboxId, senderInboxId)
-            );
-
-            if (!isMemberConfess) {
-              log(`Adding new member ${senderInboxId} to ${group.name}...`);
-              await group.addMembers([senderInboxId]);
-              addedToConfess = true;
-              log(`Added ${senderInboxId} to ${group.name}`);
-            } else {
-              alreadyInConfess = true;
-              log(
-                `User ${senderInboxId} is already a member of ${group.name}`
-              );
-            }
-          } catch (e) {
-            log(`[ERROR] Failed to add ${senderInboxId} to ${group.name}: ${e instanceof Error ? e.message : String(e)}`);
-          }
+      // Nobody is added just for saying hi: players who aren't in the group yet are asked to /join
+      const instructions = formatInstructions(registry, { messages: services.messages, locale });
+      await conversation.send(instructions);
+      if (!(await isGroupMember(group, senderInboxId))) {
+        await conversation.send(
+          games.length > 1 ? t("welcome.promptGroups") : t("welcome.prompt", { group: group.name })
+        );
+      }
 
-          const instructions = "Welcome to the Confession Game! Here's how to play:\n\n" +
-              "1. Make a confession:\n" +
-              "   /confess [your confession] @[your name]\n" +
-              "   Example: /confess I love pizza @alice\n\n" +
-              "2. Guess who made a confession:\n" +
-              "   /guess [username]\n" +
-              "   Example: /guess alice";
-
-          // Send confirmation message
-          let confirmationMessage = "";
-          if (addedToConfess) {
-            confirmationMessage = `You've been added to the "${group.name}" group. You'll see the chat in your requests when a new message is sent!`;
-          } else if (alreadyInConfess) {
-            confirmationMessage = instructions;
-          } else {
-            confirmationMessage = "We tried to add you to the group but encountered an error. Please try again later.";
-          }
+    } catch (processingError: unknown) {
+      // Log errors processing individual messages but continue the stream
+      const errorMessage =
+        processingError instanceof Error ? processingError.message : String(processingError);
+      logger.error(`Error processing message: ${errorMessage}`);
+
+      // Attempt to send error reply
+      try {
+        const convIdForError = message?.conversationId;
+        if (convIdForError) {
+           const errorConversation = await client.conversations.getConversationById(convIdForError);
+           // Check if it's not a group before sending error
+           if (errorConversation && isDmConversation(errorConversation)) {
+              const { services } = await getCurrentGroupGame(games, message?.senderInboxId ?? "");
+              const t = services.messages.translator(await getPlayerLocale(services, message?.senderInboxId ?? ""));
+              await errorConversation.send(t("error.generic"));
+           }
+        }
+      } catch (sendError) {
+        metrics.sendFailures.inc({ kind: "reply" });
+        logger.error(
+          `Failed to send error message after processing error: ${
+            sendError instanceof Error ? sendError.message : String(sendError)
+          }`
+        );
+      }
+    } // End of inner try...catch for message processing
+  };
+
+  // Counts 🌶️ reactions to confessions in the group; other reactions are ignored
+  const handleReaction = async (services: BotServices, message: BotMessage, isDm: boolean) => {
+    const reaction = message.content as Reaction | undefined;
+    if (isDm || !reaction) {
+      return;
+    }
+    const confession = await recordSpicyReaction(services.store, {
+      messageId: reaction.reference,
+      inboxId: message.senderInboxId,
+      emoji: reaction.content,
+      removed: reaction.action === "removed",
+    });
+    if (confession) {
+      services.events.emit({ type: "spicy", id: confession.id, votes: confession.spicyVotes?.length ?? 0 });
+    }
+  };
 
-          if (confirmationMessage) {
-            await conversation.send(confirmationMessage);
-          }
+  // Skips our own and unsupported messages and anything already handled, then handles the rest
+  const handleMessage = async (message: BotMessage) => {
+    if (shouldSkip(message, client)) {
+      logger.debug(`Skipping message ${message?.id}: Self-message or unsupported content.`);
+      return;
+    }
+    if (await isHandled(home, message)) {
+      logger.debug(`Skipping message ${message.id}: Already handled.`);
+      return;
+    }
+    health.lastMessageAt = home.now().toISOString();
+    logger.debug(`Message received (${message.contentType?.typeId})`, { messageId: message.id, sender: message.senderInboxId });
+    await withLogContext(
+      { messageId: message.id, conversationId: message.conversationId, sender: message.senderInboxId },
+      () => processMessage(message)
+    );
+    // A handler that threw was logged above and, in a DM, answered with an error, so it counts
+    // as handled too rather than being retried
+    await markHandled(home, message);
+  };
+
+  // Handles messages sent while the stream was down, oldest first. Nothing to catch up on
+  // before the very first handled message.
+  const catchUp = async () => {
+    const { lastProcessedAtNs } = await home.store.read();
+    if (lastProcessedAtNs === undefined) {
+      return;
+    }
+    await client.conversations.syncAll();
+    const conversations = await client.conversations.list();
+    const missed = (
+      await Promise.all(conversations.map((conversation) => conversation.messages({ sentAfterNs: lastProcessedAtNs - CATCH_UP_OVERLAP_NS })))
+    )
+      .flat()
+      .sort((a, b) => a.sentAtNs - b.sentAtNs);
+    logger.info(`Catching up: checking ${missed.length} recent messages for any missed while disconnected`);
+    for (const message of missed) {
+      await handleMessage(message);
+    }
+  };
 
-          if (addedToConfess) {
-            await conversation.send(instructions);
-          }
+  let attempt = 0;
+  // Reconnect loop: runs until stopped, backing off while the stream keeps failing
+  while (!signal?.aborted) {
+    try {
+      logger.info(`Starting message stream...${attempt > 0 ? ` (retry ${attempt})` : ""}`);
+      const stream = await client.conversations.streamAllMessages();
+      health.connected = true;
+      logger.info("Message stream started successfully. Waiting for messages...");
 
-        } catch (processingError: unknown) {
-          // Log errors processing individual messages but continue the stream
-          const errorMessage =
-            processingError instanceof Error ? processingError.message : String(processingError);
-          log(`Error processing message ${message?.id}: ${errorMessage}`);
+      // Start streaming before catching up so nothing slips through in between;
+      // anything seen twice is skipped as already handled
+      await catchUp();
 
-          // Attempt to send error reply
-          try {
-            const convIdForError = message?.conversationId;
-            if (convIdForError) {
-               const errorConversation = await client.conversations.getConversationById(convIdForError);
-               // Check if it's not a group before sending error
-               if (errorConversation && !(errorConversation instanceof Group)) {
-                  await errorConversation.send(
-                    "Sorry, I encountered an error processing your message."
-                  );
-               }
-            }
-          } catch (sendError) {
-            log(
-              `Failed to send error message after processing error: ${
-                sendError instanceof Error ? sendError.message : String(sendError)
-              }`
-            );
-          }
-        } // End of inner try...catch for message processing
+      for await (const message of stream) {
+        attempt = 0;
+        health.retryCount = 0;
+        if (message) {
+          await handleMessage(message);
+        }
       } // End of for await...of stream loop
 
-      // If the stream completes without error (less common for indefinite streams), reset retry count
-      log("Message stream completed normally.");
-      retryCount = 0; // Reset retries if stream finishes cleanly
-
+      logger.warn("Message stream ended.");
+      health.connected = false;
     } catch (streamError: unknown) {
       // Handle errors related to the stream itself (initialization or fatal error)
-      retryCount++;
-      log(`Stream error (Attempt ${retryCount}/${MAX_RETRIES}): ${streamError instanceof Error ? streamError.message : String(streamError)}`);
+      attempt++;
+      health.connected = false;
+      health.retryCount = attempt;
+      logger.error(`Stream error (attempt ${attempt}): ${streamError instanceof Error ? streamError.message : String(streamError)}`);
       if (streamError instanceof Error && streamError.stack) {
-          log(`Stack trace: ${streamError.stack}`);
-      }
-
-      if (retryCount < MAX_RETRIES) {
-        log(`Waiting ${RETRY_DELAY_MS / 1000} seconds before retrying stream...`);
-        await sleep(RETRY_DELAY_MS);
-      } else {
-        log("Maximum retry attempts reached for message stream. Exiting listener.");
-        // The while loop condition will handle exiting
+        logger.debug(`Stack trace: ${streamError.stack}`);
       }
     } // End of outer try...catch for stream handling
-  } // End of while loop for retries
 
-  log("listenForMessages function finished."); // Indicates the retry loop has exited
+    if (signal?.aborted) {
+      break;
+    }
+    metrics.streamRestarts.inc();
+    const delay = getRetryDelay(attempt, backoff);
+    logger.info(`Reconnecting in ${(delay / 1000).toFixed(1)} seconds...`);
+    await sleep(delay, signal);
+  } // End of reconnect loop
+
+  logger.info("listenForMessages function finished."); // Indicates the retry loop has exited
 }
 
 // Updated shouldSkip: Only checks self-message and content type
 function shouldSkip(
-  message: DecodedMessage<any> | undefined,
-  client: Client
+  message: BotMessage,
+  client: BotClient
 ) {
-  if (!message) {
-    return true;
-  }
   return (
     isSameString(message.senderInboxId, client.inboxId) ||
-    message.contentType?.typeId !== "text"
+    !SUPPORTED_CONTENT_TYPES.includes(message.contentType?.typeId ?? "")
   );
 } 
\ No newline at end of file
@@ -0,0 +1,439 @@
+import { createHash } from "crypto";
+import {
+  GroupPermissionsOptions,
+  IdentifierKind,
+  MetadataField,
+  PermissionPolicy,
+  PermissionUpdateType,
+  type PermissionPolicySet,
+} from "@xmtp/node-sdk";
+import type { Reaction } from "@xmtp/content-type-reaction";
+import type { Reply } from "@xmtp/content-type-reply";
+import type { BotClient, BotContent, BotConversation, BotDm, BotGroup } from "../helpers/client.js";
+import { isDmConversation, isSameString } from "../helpers/utils.js";
+
+// In-memory stand-ins for the parts of @xmtp/node-sdk the bot uses, so the listener and
+// commands can run without the network. They're typed as the bot's view of the SDK (see
+// helpers/client.ts), so they can't drift from what the bot calls.
+
+type FakeContentType = "text" | "reply" | "reaction";
+
+// XMTP's default permissions, for groups created without a custom policy
+const DEFAULT_POLICY_SET: PermissionPolicySet = {
+  addMemberPolicy: PermissionPolicy.Allow,
+  removeMemberPolicy: PermissionPolicy.Admin,
+  addAdminPolicy: PermissionPolicy.SuperAdmin,
+  removeAdminPolicy: PermissionPolicy.SuperAdmin,
+  updateGroupNamePolicy: PermissionPolicy.Allow,
+  updateGroupDescriptionPolicy: PermissionPolicy.Allow,
+  updateGroupImageUrlSquarePolicy: PermissionPolicy.Allow,
+  updateMessageDisappearingPolicy: PermissionPolicy.Admin,
+};
+
+// Helper to find which policy a permission update changes
+const getPolicyKey = (type: PermissionUpdateType, field?: MetadataField): keyof PermissionPolicySet => {
+  if (type === PermissionUpdateType.AddMember) return "addMemberPolicy";
+  if (type === PermissionUpdateType.RemoveMember) return "removeMemberPolicy";
+  if (type === PermissionUpdateType.AddAdmin) return "addAdminPolicy";
+  if (type === PermissionUpdateType.RemoveAdmin) return "removeAdminPolicy";
+  if (field === MetadataField.Description) return "updateGroupDescriptionPolicy";
+  if (field === MetadataField.ImageUrlSquare) return "updateGroupImageUrlSquarePolicy";
+  return "updateGroupNamePolicy";
+};
+
+// A message as the bot's stream delivers it
+export type FakeMessage = {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  content: string | Reply | Reaction;
+  contentType: { typeId: FakeContentType };
+  sentAt: Date;
+  sentAtNs: number;
+};
+
+// Anything sent into a fake conversation, by the bot or by a player
+export type SentMessage = {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  // The text, or the emoji of a reaction
+  content: string;
+  contentType: FakeContentType;
+  // The message a reply or reaction is about
+  reference?: string;
+  isDm: boolean;
+  // The other side of a DM with the bot
+  peerInboxId?: string;
+};
+
+// A fake group also knows who's in it without a round trip, to refuse posts from non-members
+type FakeGroup = BotGroup & { isMember: (inboxId: string) => boolean };
+
+export type FakeXmtp = {
+  client: BotClient;
+  // Every message sent so far, oldest first
+  sent: SentMessage[];
+  // Links an inbox to an address; unknown inboxes get a made-up address on first use
+  registerInbox: (inboxId: string, address?: string) => string;
+  getAddress: (inboxId: string) => string;
+  createGroup: (
+    name: string,
+    options?: { description?: string; superAdmins?: string[]; policySet?: PermissionPolicySet }
+  ) => BotGroup;
+  // Sends a DM from a player to the bot. Resolves once the listener is done with it, or right
+  // away if the stream is down; the message can still be caught up on after a reconnect.
+  sendDm: (fromInboxId: string, text: string) => Promise<void>;
+  // Posts in a group as a player, optionally as a reply to another message. Resolves like sendDm.
+  sendToGroup: (group: BotGroup, fromInboxId: string, text: string, options?: { replyTo?: string }) => Promise<void>;
+  // Adds or removes a player's reaction to a group message. Resolves like sendDm.
+  reactInGroup: (
+    group: BotGroup,
+    fromInboxId: string,
+    messageId: string,
+    emoji: string,
+    action?: Reaction["action"]
+  ) => Promise<void>;
+  // Ends the open message stream, like a dropped connection. The next streamAllMessages call
+  // opens a fresh one.
+  closeStream: () => void;
+};
+
+// The content type a player's text reply carries, as the reply codec decodes it
+const TEXT_CONTENT_TYPE: Reply["contentType"] = {
+  authorityId: "xmtp.org",
+  typeId: "text",
+  versionMajor: 1,
+  versionMinor: 0,
+  toString: () => "xmtp.org/text:1.0",
+  sameAs: (id) => id.authorityId === "xmtp.org" && id.typeId === "text" && id.versionMajor === 1,
+};
+
+// Helper to tell a reaction the bot sends apart from the rest of its content
+const isReaction = (content: BotContent): content is Reaction =>
+  typeof content === "object" && "action" in content && "schema" in content;
+
+// Helper to make a stable, address-shaped string for an inbox
+const fakeAddressFor = (inboxId: string) =>
+  "0x" + createHash("sha256").update(inboxId).digest("hex").slice(0, 40);
+
+// Helper to make the async iterable streamAllMessages returns. Each delivered message
+// settles once the listener asks for the next one, meaning it finished handling it.
+const createFakeStream = () => {
+  const pending: { message: FakeMessage; handled: () => void }[] = [];
+  let waiting: ((result: IteratorResult<FakeMessage>) => void) | undefined;
+  let current: (() => void) | undefined;
+  let closed = false;
+
+  const pump = () => {
+    if (!waiting) return;
+    const resolve = waiting;
+    if (closed) {
+      waiting = undefined;
+      resolve({ done: true, value: undefined });
+      return;
+    }
+    const next = pending.shift();
+    if (!next) return;
+    waiting = undefined;
+    current = next.handled;
+    resolve({ done: false, value: next.message });
+  };
+
+  const finishCurrent = () => {
+    current?.();
+    current = undefined;
+  };
+
+  const stream = {
+    [Symbol.asyncIterator]() {
+      return stream;
+    },
+    next(): Promise<IteratorResult<FakeMessage>> {
+      finishCurrent();
+      return new Promise((resolve) => {
+        waiting = resolve;
+        pump();
+      });
+    },
+    async return(): Promise<IteratorResult<FakeMessage>> {
+      closed = true;
+      finishCurrent();
+      return { done: true, value: undefined };
+    },
+  };
+
+  return {
+    stream,
+    isClosed: () => closed,
+    deliver: (message: FakeMessage) =>
+      new Promise<void>((handled) => {
+        pending.push({ message, handled });
+        pump();
+      }),
+    close: () => {
+      closed = true;
+      for (const { handled } of pending.splice(0)) handled();
+      pump();
+    },
+  };
+};
+
+export function createFakeXmtp({ inboxId: botInboxId = "bot-inbox", now = () => new Date() } = {}): FakeXmtp {
+  const addresses = new Map<string, string>();
+  const conversations = new Map<string, BotConversation>();
+  const groups = new Map<string, FakeGroup>();
+  const dmsByPeer = new Map<string, BotDm>();
+  const sent: SentMessage[] = [];
+  // Messages players sent, per conversation, for catch-up via conversation.messages()
+  const history = new Map<string, FakeMessage[]>();
+  let stream: ReturnType<typeof createFakeStream> | undefined;
+  let nextId = 1;
+  let lastSentAtNs = 0;
+
+  const registerInbox = (inboxId: string, address?: string) => {
+    const key = inboxId.toLowerCase();
+    if (address || !addresses.has(key)) {
+      addresses.set(key, (address ?? fakeAddressFor(key)).toLowerCase());
+    }
+    return addresses.get(key)!;
+  };
+  const findInboxByAddress = (address: string) =>
+    [...addresses.entries()].find(([, a]) => isSameString(a, address))?.[0];
+  const toMember = (inboxId: string) => ({
+    inboxId,
+    accountIdentifiers: [{ identifier: registerInbox(inboxId), identifierKind: IdentifierKind.Ethereum }],
+  });
+  // Helper to log a message and return its ID
+  const record = (
+    conversation: BotConversation,
+    senderInboxId: string,
+    content: string,
+    { contentType = "text", reference }: { contentType?: FakeContentType; reference?: string } = {}
+  ) => {
+    const id = `message-${nextId++}`;
+    sent.push({
+      id,
+      conversationId: conversation.id,
+      senderInboxId,
+      content,
+      contentType,
+      reference,
+      isDm: isDmConversation(conversation),
+      peerInboxId: isDmConversation(conversation) ? conversation.peerInboxId : undefined,
+    });
+    return id;
+  };
+  // Helper to log what the bot sends: text, or a reaction when sent with the reaction content type
+  const recordBotMessage = (conversation: BotConversation, content: BotContent, contentType?: { typeId: string }) =>
+    contentType?.typeId === "reaction" && isReaction(content)
+      ? record(conversation, botInboxId, content.action === "removed" ? "" : content.content, {
+          contentType: "reaction",
+          reference: content.reference,
+        })
+      : record(conversation, botInboxId, String(content));
+  const toMessage = (
+    id: string,
+    conversationId: string,
+    senderInboxId: string,
+    content: FakeMessage["content"],
+    typeId: FakeContentType = "text"
+  ): FakeMessage => {
+    const message: FakeMessage = {
+      id,
+      conversationId,
+      senderInboxId,
+      content,
+      contentType: { typeId },
+      sentAt: now(),
+      sentAtNs: 0,
+    };
+    // Strictly increasing, even for messages sent at the same fake time. Steps are big enough
+    // to survive the float precision of nanosecond timestamps.
+    lastSentAtNs = Math.max(lastSentAtNs + 1024, now().getTime() * 1_000_000);
+    message.sentAtNs = lastSentAtNs;
+    history.set(conversationId, [...(history.get(conversationId) ?? []), message]);
+    return message;
+  };
+  const messagesIn = async (conversationId: string, options?: { sentAfterNs?: number }) =>
+    (history.get(conversationId) ?? []).filter((m) => options?.sentAfterNs === undefined || m.sentAtNs > options.sentAfterNs);
+  const deliver = async (message: FakeMessage) => {
+    if (stream && !stream.isClosed()) {
+      await stream.deliver(message);
+    }
+  };
+
+  const getOrCreateDm = (peerInboxId: string) => {
+    const key = peerInboxId.toLowerCase();
+    const existing = dmsByPeer.get(key);
+    if (existing) {
+      return existing;
+    }
+    registerInbox(key);
+    const id = `dm-${nextId++}`;
+    const dm: BotDm = {
+      id,
+      peerInboxId: key,
+      members: async () => [toMember(botInboxId), toMember(key)],
+      messages: (options) => messagesIn(id, options),
+      sync: async () => {},
+      send: async (content, contentType) => recordBotMessage(dm, content, contentType),
+    };
+    dmsByPeer.set(key, dm);
+    conversations.set(id, dm);
+    return dm;
+  };
+
+  const createGroup = (
+    name: string,
+    {
+      description = "",
+      superAdmins = [],
+      policySet = DEFAULT_POLICY_SET,
+    }: { description?: string; superAdmins?: string[]; policySet?: PermissionPolicySet } = {}
+  ) => {
+    const memberIds = new Set<string>([botInboxId, ...superAdmins]);
+    const superAdminIds = new Set<string>([botInboxId, ...superAdmins]);
+    const byIdentifiers = (identifiers: { identifier: string }[]) =>
+      identifiers.map(({ identifier }) => {
+        const inboxId = findInboxByAddress(identifier);
+        if (!inboxId) throw new Error(`No inbox for ${identifier}`);
+        return inboxId;
+      });
+    const id = `group-${nextId++}`;
+    const permissions = {
+      policyType: policySet === DEFAULT_POLICY_SET ? GroupPermissionsOptions.Default : GroupPermissionsOptions.CustomPolicy,
+      policySet: { ...policySet },
+    };
+    let groupName = name;
+    let groupDescription = description;
+    let imageUrl = "";
+    const group: FakeGroup = {
+      id,
+      get name() {
+        return groupName;
+      },
+      get description() {
+        return groupDescription;
+      },
+      get imageUrl() {
+        return imageUrl;
+      },
+      get permissions() {
+        return permissions;
+      },
+      get superAdmins() {
+        return [...superAdminIds];
+      },
+      members: async () => [...memberIds].map(toMember),
+      addMembers: async (inboxIds: string[]) => {
+        for (const id of inboxIds) memberIds.add(id.toLowerCase());
+      },
+      removeMembers: async (inboxIds: string[]) => {
+        for (const id of inboxIds) memberIds.delete(id.toLowerCase());
+      },
+      addMembersByIdentifiers: async (identifiers: { identifier: string }[]) => {
+        for (const id of byIdentifiers(identifiers)) memberIds.add(id);
+      },
+      removeMembersByIdentifiers: async (identifiers: { identifier: string }[]) => {
+        for (const id of byIdentifiers(identifiers)) memberIds.delete(id);
+      },
+      addSuperAdmin: async (inboxId: string) => {
+        superAdminIds.add(inboxId.toLowerCase());
+      },
+      updateName: async (value) => {
+        groupName = value;
+      },
+      updateDescription: async (value) => {
+        groupDescription = value;
+      },
+      updateImageUrl: async (value) => {
+        imageUrl = value;
+      },
+      updatePermission: async (type, policy, field) => {
+        permissions.policySet[getPolicyKey(type, field)] = policy;
+      },
+      sync: async () => {},
+      messages: (options) => messagesIn(id, options),
+      send: async (content, contentType) => recordBotMessage(group, content, contentType),
+      isMember: (inboxId) => memberIds.has(inboxId.toLowerCase()),
+    };
+    groups.set(id, group);
+    conversations.set(id, group);
+    return group;
+  };
+
+  const client: BotClient = {
+    inboxId: botInboxId,
+    conversations: {
+      sync: async () => {},
+      syncAll: async () => BigInt(0),
+      list: async () => [...conversations.values()],
+      streamAllMessages: async () => {
+        stream?.close();
+        stream = createFakeStream();
+        return stream.stream;
+      },
+      getConversationById: async (id) => conversations.get(id),
+      getDmByInboxId: (inboxId) => dmsByPeer.get(inboxId.toLowerCase()),
+      newDm: async (inboxId) => getOrCreateDm(inboxId),
+      newGroup: async (inboxIds, options) => {
+        const group = createGroup(options?.groupName ?? "", {
+          description: options?.groupDescription,
+          policySet: options?.customPermissionPolicySet,
+        });
+        await group.addMembers(inboxIds);
+        return group;
+      },
+    },
+    preferences: {
+      inboxStateFromInboxIds: async (inboxIds) =>
+        inboxIds.map((inboxId) => ({
+          identifiers: [{ identifier: registerInbox(inboxId), identifierKind: IdentifierKind.Ethereum }],
+        })),
+    },
+    getInboxIdByIdentifier: async ({ identifier }) => findInboxByAddress(identifier) ?? null,
+  };
+  registerInbox(botInboxId);
+
+  // Helper to find the fake behind a group a player posts in, making sure they're a member
+  const getMemberGroup = (group: BotGroup, inboxId: string) => {
+    const fake = groups.get(group.id);
+    if (!fake) throw new Error(`"${group.name}" isn't a fake group`);
+    if (!fake.isMember(inboxId)) throw new Error(`${inboxId} is not a member of "${group.name}"`);
+    return fake;
+  };
+
+  return {
+    client,
+    sent,
+    registerInbox,
+    getAddress: (inboxId) => registerInbox(inboxId),
+    createGroup,
+    sendDm: async (fromInboxId, text) => {
+      const dm = getOrCreateDm(fromInboxId);
+      const id = record(dm, fromInboxId.toLowerCase(), text);
+      await deliver(toMessage(id, dm.id, fromInboxId.toLowerCase(), text));
+    },
+    sendToGroup: async (group, fromInboxId, text, { replyTo } = {}) => {
+      const fake = getMemberGroup(group, fromInboxId);
+      const sender = fromInboxId.toLowerCase();
+      if (!replyTo) {
+        const id = record(fake, sender, text);
+        await deliver(toMessage(id, group.id, sender, text));
+        return;
+      }
+      const id = record(fake, sender, text, { contentType: "reply", reference: replyTo });
+      const reply: Reply = { reference: replyTo, content: text, contentType: TEXT_CONTENT_TYPE };
+      await deliver(toMessage(id, group.id, sender, reply, "reply"));
+    },
+    reactInGroup: async (group, fromInboxId, messageId, emoji, action = "added") => {
+      const fake = getMemberGroup(group, fromInboxId);
+      const sender = fromInboxId.toLowerCase();
+      const id = record(fake, sender, emoji, { contentType: "reaction", reference: messageId });
+      const reaction: Reaction = { reference: messageId, action, content: emoji, schema: "unicode" };
+      await deliver(toMessage(id, group.id, sender, reaction, "reaction"));
+    },
+    closeStream: () => stream?.close(),
+  };
+}
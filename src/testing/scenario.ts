@@ -0,0 +1,216 @@
+import assert from "assert";
+import { randomBytes } from "crypto";
+import type { BotServices } from "../commands/index.js";
+import { MAIN_GROUP_ID } from "../config.js";
+import type { AuditEntry } from "../helpers/audit.js";
+import type { BotGroup } from "../helpers/client.js";
+import { createFixtureNameResolver } from "../helpers/names.js";
+import { createSealer } from "../helpers/sealer.js";
+import { createGameEvents } from "../game/events.js";
+import { DEFAULT_MODERATION_CONFIG } from "../game/moderation.js";
+import { DEFAULT_SHH_CONFIG } from "../game/pseudonyms.js";
+import { DEFAULT_ROUND_CONFIG } from "../game/rounds.js";
+import { DEFAULT_GUESS_RULES } from "../game/rules.js";
+import type { GroupGame } from "../groups.js";
+import { createMessages } from "../messages/index.js";
+import { createMemoryGameStore } from "../store/index.js";
+import { listenForMessages } from "../stream.js";
+import { tickRoundTimers } from "../timers.js";
+import { createFakeXmtp, type FakeXmtp, type SentMessage } from "./fakeXmtp.js";
+
+// A clock that only moves when told to
+export type FakeClock = {
+  now: () => Date;
+  advance: (ms: number) => void;
+};
+
+export function createFakeClock(start: Date = new Date("2025-01-01T12:00:00Z")): FakeClock {
+  let current = start.getTime();
+  return {
+    now: () => new Date(current),
+    advance: (ms) => {
+      current += ms;
+    },
+  };
+}
+
+export type ScenarioOptions = {
+  // Players by inbox ID. Each gets a made-up address unless one is given.
+  players?: Record<string, { address?: string; name?: string }>;
+  // Inbox IDs of players whose addresses are configured as admin addresses
+  admins?: string[];
+  // Overrides for the default in-memory services of every group
+  services?: Partial<BotServices>;
+  // Ids of the confession groups to run, each with its own game. Just "main" by default.
+  groups?: string[];
+  startAt?: Date;
+};
+
+export type Scenario = {
+  xmtp: FakeXmtp;
+  // The first group, where DMs go by default, and its services
+  group: BotGroup;
+  services: BotServices;
+  games: GroupGame[];
+  clock: FakeClock;
+  auditEntries: Omit<AuditEntry, "timestamp">[];
+  // Player actions. Each one starts a new step; the expectations below look at what the bot
+  // sent during the latest step only.
+  dm: (inboxId: string, text: string) => Promise<void>;
+  // Posts in the first group, or the one with the given id; with replyTo, as a reply to that message
+  post: (inboxId: string, text: string, options?: { replyTo?: string; group?: string }) => Promise<void>;
+  // Reacts to a message in whichever group it was sent
+  react: (inboxId: string, messageId: string, emoji: string, action?: "added" | "removed") => Promise<void>;
+  // Moves the clock forward and runs the round timers once
+  advance: (ms: number) => Promise<void>;
+  // ID of the newest message from the bot in any group that matches, from any step, e.g. to
+  // reply or react to a confession
+  findGroupMessageId: (pattern: RegExp | string) => string;
+  // What the bot sent in the latest step, not counting reactions. Group helpers look at the
+  // first group unless given a group id.
+  groupMessages: (groupId?: string) => string[];
+  dmsTo: (inboxId: string) => string[];
+  // Checks the bot reacted with the emoji in the latest step
+  expectReaction: (emoji: string) => void;
+  expectGroup: (pattern: RegExp | string, groupId?: string) => string;
+  expectDm: (inboxId: string, pattern: RegExp | string) => string;
+  expectNoGroup: (groupId?: string) => void;
+  stop: () => Promise<void>;
+};
+
+// Helper to check a message against a pattern: substring for strings, test for regexes
+const matches = (text: string, pattern: RegExp | string) =>
+  typeof pattern === "string" ? text.includes(pattern) : pattern.test(text);
+
+// Runs the real listener and commands against a fake XMTP client, a memory store and a
+// fake clock. Script players with dm()/post(), then check what came out with the expect helpers.
+export async function createScenario({
+  players = {},
+  admins = [],
+  services: overrides = {},
+  groups = [MAIN_GROUP_ID],
+  startAt,
+}: ScenarioOptions = {}): Promise<Scenario> {
+  const clock = createFakeClock(startAt);
+  const xmtp = createFakeXmtp({ now: clock.now });
+  const names: Record<string, string> = {};
+  for (const [inboxId, { address, name }] of Object.entries(players)) {
+    const registered = xmtp.registerInbox(inboxId, address);
+    if (name) names[registered] = name;
+  }
+
+  const auditEntries: Omit<AuditEntry, "timestamp">[] = [];
+  const sealer = createSealer(randomBytes(32));
+  const games: GroupGame[] = groups.map((id, i) => ({
+    id,
+    group: xmtp.createGroup(i === 0 ? "Scenario group" : `Scenario group ${id}`),
+    services: {
+      store: createMemoryGameStore(),
+      names: createFixtureNameResolver(names),
+      rules: { ...DEFAULT_GUESS_RULES, cooldownMs: 0 },
+      rounds: DEFAULT_ROUND_CONFIG,
+      moderation: DEFAULT_MODERATION_CONFIG,
+      shh: DEFAULT_SHH_CONFIG,
+      adminAddresses: admins.map((inboxId) => xmtp.getAddress(inboxId)),
+      audit: {
+        record: async (entry) => {
+          auditEntries.push({ ...entry, group: id });
+        },
+      },
+      sealer,
+      events: createGameEvents(clock.now),
+      messages: createMessages(),
+      now: clock.now,
+      ...overrides,
+    },
+  }));
+  const { group, services } = games[0];
+  // Helper to get a group chat by its game's id
+  const groupById = (id: string = games[0].id) => {
+    const game = games.find((g) => g.id === id);
+    assert.ok(game, `No group "${id}" in this scenario`);
+    return game.group;
+  };
+
+  const controller = new AbortController();
+  const listening = listenForMessages(xmtp.client, games, {
+    signal: controller.signal,
+    // Reconnect right away after xmtp.closeStream()
+    backoff: { initialMs: 1, maxMs: 1 },
+  });
+
+  let stepStart = 0;
+  const startStep = () => {
+    stepStart = xmtp.sent.length;
+  };
+  const fromBot = () =>
+    xmtp.sent.slice(stepStart).filter((m: SentMessage) => m.senderInboxId === xmtp.client.inboxId);
+  const textFromBot = () => fromBot().filter((m) => m.contentType !== "reaction");
+  const groupMessages = (groupId?: string) => {
+    const chat = groupById(groupId);
+    return textFromBot().filter((m) => m.conversationId === chat.id).map((m) => m.content);
+  };
+  const dmsTo = (inboxId: string) =>
+    textFromBot().filter((m) => m.isDm && m.peerInboxId === inboxId.toLowerCase()).map((m) => m.content);
+  const expectOne = (messages: string[], pattern: RegExp | string, where: string) => {
+    const found = messages.find((m) => matches(m, pattern));
+    assert.ok(found, `Expected ${where} to match ${pattern}, got:\n${messages.join("\n---\n") || "(nothing)"}`);
+    return found;
+  };
+
+  return {
+    xmtp,
+    group,
+    services,
+    games,
+    clock,
+    auditEntries,
+    dm: async (inboxId, text) => {
+      startStep();
+      await xmtp.sendDm(inboxId, text);
+    },
+    post: async (inboxId, text, { group: groupId, ...options } = {}) => {
+      startStep();
+      await xmtp.sendToGroup(groupById(groupId), inboxId, text, options);
+    },
+    react: async (inboxId, messageId, emoji, action) => {
+      startStep();
+      const sentIn = xmtp.sent.find((m) => m.id === messageId)?.conversationId;
+      const game = games.find((g) => g.group.id === sentIn);
+      assert.ok(game, `No group message ${messageId}`);
+      await xmtp.reactInGroup(game.group, inboxId, messageId, emoji, action);
+    },
+    advance: async (ms) => {
+      startStep();
+      clock.advance(ms);
+      for (const game of games) {
+        await tickRoundTimers(xmtp.client, game.group, game.services);
+      }
+    },
+    findGroupMessageId: (pattern) => {
+      const found = [...xmtp.sent].reverse().find(
+        (m) =>
+          m.senderInboxId === xmtp.client.inboxId &&
+          games.some((g) => g.group.id === m.conversationId) &&
+          m.contentType === "text" &&
+          matches(m.content, pattern)
+      );
+      assert.ok(found, `Expected a group message matching ${pattern}`);
+      return found.id;
+    },
+    groupMessages,
+    dmsTo,
+    expectReaction: (emoji) => {
+      const reactions = fromBot().filter((m) => m.contentType === "reaction").map((m) => m.content);
+      assert.ok(reactions.includes(emoji), `Expected a ${emoji} reaction, got: ${reactions.join(" ") || "(none)"}`);
+    },
+    expectGroup: (pattern, groupId) => expectOne(groupMessages(groupId), pattern, "a group message"),
+    expectDm: (inboxId, pattern) => expectOne(dmsTo(inboxId), pattern, `a DM to ${inboxId}`),
+    expectNoGroup: (groupId) => assert.deepStrictEqual(groupMessages(groupId), []),
+    stop: async () => {
+      controller.abort();
+      xmtp.closeStream();
+      await listening;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import type { BotServices } from "./commands/index.js";
+import { announceNextConfession, formatConfessor, notifyConfessor } from "./game/announcements.js";
+import { processRoundTimers } from "./game/confessions.js";
+import { getGameMode } from "./game/modes/index.js";
+import { recordConfessionMessage } from "./game/reactions.js";
+import { getRoundMode } from "./game/rounds.js";
+import type { BotClient, BotGroup } from "./helpers/client.js";
+import { logger } from "./helpers/logger.js";
+
+// How often round deadlines are checked
+const ROUND_TIMER_INTERVAL_MS = 15_000;
+
+// Checks round deadlines once and tells the group about reminders, timeouts and new rounds
+export async function tickRoundTimers(
+  client: BotClient,
+  group: BotGroup,
+  services: BotServices,
+  now: Date = services.now()
+) {
+  const events = await processRoundTimers(services.store, services.rounds, now);
+  const t = services.messages.translator();
+  const announcer = { ...services, client, group };
+  for (const event of events) {
+    const { id } = event.confession;
+    switch (event.type) {
+      case "reminder": {
+        const minutes = Math.ceil(event.remainingMs / 60_000);
+        services.events.emit({ type: "reminder", id, remainingMs: event.remainingMs });
+        // Players can reply to the reminder to guess, like to the announcement
+        const reminder = getGameMode(getRoundMode(event.confession)).formatReminder(event.confession, minutes);
+        const messageId = await group.send(t(reminder.key, reminder.vars));
+        await recordConfessionMessage(services.store, id, messageId);
+        break;
+      }
+      case "timeout":
+        services.events.emit({
+          type: "round_end",
+          id,
+          outcome: "timeout",
+          confessor: event.confession.status === "revealed" ? formatConfessor(event.confession) : undefined,
+          points: event.end.points,
+        });
+        await group.send(t(event.end.announcement.key, event.end.announcement.vars));
+        await notifyConfessor(announcer, event.confession, event.end.submitterNotice.key, event.end.submitterNotice.vars);
+        await announceNextConfession(announcer, event.next);
+        break;
+      case "activated":
+        await announceNextConfession(announcer, event.confession);
+        break;
+    }
+  }
+}
+
+// Starts checking round deadlines in the background. Deadlines are stored with the game
+// state, so a restarted bot picks up where the previous one left off.
+export function startRoundTimers(client: BotClient, group: BotGroup, services: BotServices) {
+  const timer = setInterval(() => {
+    tickRoundTimers(client, group, services).catch((error) => {
+      logger.error(`Round timer failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, ROUND_TIMER_INTERVAL_MS);
+  // Don't keep the process alive just for the timer
+  timer.unref();
+  logger.info(`Round timers started for "${group.name}" (checking every ${ROUND_TIMER_INTERVAL_MS / 1000}s)`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DEFAULT_CONFIG, loadConfig } from "../src/config.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("loadConfig", () => {
+  let dir: string;
+  let count = 0;
+
+  // Writes a config file and loads it
+  const load = async (config: unknown) => {
+    const filePath = path.join(dir, `config-${count++}.json`);
+    await fs.writeFile(filePath, JSON.stringify(config));
+    return loadConfig(filePath);
+  };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("reads the example config as the defaults", async () => {
+    const config = await loadConfig("config.example.json");
+    assert.deepEqual(config.streamBackoff, DEFAULT_CONFIG.streamBackoff);
+    const [main] = config.groups;
+    const [defaults] = DEFAULT_CONFIG.groups;
+    // Through JSON, so unset settings compare the same whether left out or undefined
+    const settings = (group: typeof main) => JSON.parse(JSON.stringify({ ...group, adminAddresses: undefined }));
+    assert.deepEqual(settings(main), settings(defaults));
+    assert.deepEqual(main.adminAddresses, defaults.adminAddresses.map((address) => address.toLowerCase()));
+  });
+
+  it("converts units and applies top-level settings to every group", async () => {
+    const config = await load({
+      rounds: { durationMinutes: 10 },
+      guesses: { cooldownSeconds: 5 },
+      groups: [
+        { id: "main", group: { name: "Main" } },
+        { id: "defi", group: { name: "DeFi" }, rounds: { durationMinutes: 20 } },
+      ],
+    });
+    assert.deepEqual(
+      config.groups.map((group) => [group.id, group.rounds.durationMs, group.rules.cooldownMs]),
+      [
+        ["main", 10 * 60_000, 5_000],
+        ["defi", 20 * 60_000, 5_000],
+      ]
+    );
+  });
+
+  it("lists every problem in the file at once", async () => {
+    await assert.rejects(
+      load({ guesses: { maxWrong: 0, attemptsPerPlayer: 0 }, colour: "red", messages: { en: { "no.such": "x" } } }),
+      (error: Error) => {
+        assert.match(error.message, /guesses\.maxWrong: expected a whole number of 1 or more/);
+        assert.match(error.message, /guesses\.attemptsPerPlayer: expected a whole number of 1 or more/);
+        assert.match(error.message, /colour: unknown setting/);
+        assert.match(error.message, /messages: en\.no\.such: unknown message/);
+        return true;
+      }
+    );
+  });
+
+  it("won't reconnect without waiting", async () => {
+    await assert.rejects(load({ stream: { retryInitialSeconds: 0 } }), /stream\.retryInitialSeconds: expected a number above 0/);
+    await assert.rejects(load({ stream: { retryMaxSeconds: 0 } }), /stream\.retryMaxSeconds: expected a number above 0/);
+  });
+
+  it("won't take a longest delay shorter than the first", async () => {
+    await assert.rejects(
+      load({ stream: { retryInitialSeconds: 10, retryMaxSeconds: 5 } }),
+      /stream\.retryMaxSeconds \(5\) is less than stream\.retryInitialSeconds \(10\)/
+    );
+    await assert.rejects(load({ stream: { retryInitialSeconds: 600 } }), /is less than/);
+    const config = await load({ stream: { retryInitialSeconds: 2, retryMaxSeconds: 2 } });
+    assert.deepEqual(config.streamBackoff, { initialMs: 2000, maxMs: 2000 });
+  });
+
+  it("merges group permissions over the defaults and checks the policies", async () => {
+    const config = await load({
+      group: { permissions: { updateMetadata: "admins" } },
+      groups: [{ id: "main" }, { id: "defi", group: { name: "DeFi", permissions: { addMembers: "superAdmins" } } }],
+    });
+    assert.deepEqual(
+      config.groups.map((group) => group.group.permissions),
+      [
+        { addMembers: "everyone", removeMembers: "admins", updateMetadata: "admins" },
+        { addMembers: "superAdmins", removeMembers: "admins", updateMetadata: "admins" },
+      ]
+    );
+    await assert.rejects(
+      load({ group: { permissions: { removeMembers: "anyone" } } }),
+      /group\.permissions\.removeMembers: expected one of: everyone, admins, superAdmins/
+    );
+  });
+
+  it("won't run two groups with the same id or chat name", async () => {
+    await assert.rejects(load({ groups: [{ id: "main" }, { id: "main" }] }), /"main" is used by more than one group/);
+    await assert.rejects(
+      load({ groups: [{ id: "main", group: { name: "Same" } }, { id: "defi", group: { name: "Same" } }] }),
+      /More than one group is named "Same"/
+    );
+  });
+
+  it("fails on a missing CONFIG_PATH", async () => {
+    await assert.rejects(loadConfig(path.join(dir, "missing.json")), /Could not read config file/);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { PermissionPolicy } from "@xmtp/node-sdk";
+import { findOrCreateConfessGroup } from "../src/offsite.js";
+import { createFakeXmtp } from "../src/testing/fakeXmtp.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("group permissions", () => {
+  const settings = {
+    name: "Confessions",
+    description: "Anonymous confessions",
+    permissions: { addMembers: "admins", removeMembers: "superAdmins", updateMetadata: "admins" } as const,
+  };
+
+  it("creates the group with the configured permissions", async () => {
+    const xmtp = createFakeXmtp();
+    const group = await findOrCreateConfessGroup(xmtp.client, settings, []);
+    assert.equal(group.name, "Confessions");
+    assert.equal(group.description, "Anonymous confessions");
+    assert.deepEqual(group.permissions.policySet, {
+      addMemberPolicy: PermissionPolicy.Admin,
+      removeMemberPolicy: PermissionPolicy.SuperAdmin,
+      addAdminPolicy: PermissionPolicy.SuperAdmin,
+      removeAdminPolicy: PermissionPolicy.SuperAdmin,
+      updateGroupNamePolicy: PermissionPolicy.Admin,
+      updateGroupDescriptionPolicy: PermissionPolicy.Admin,
+      updateGroupImageUrlSquarePolicy: PermissionPolicy.Admin,
+      updateMessageDisappearingPolicy: PermissionPolicy.Admin,
+    });
+  });
+
+  it("brings an existing group's permissions in line with the config", async () => {
+    const xmtp = createFakeXmtp();
+    const existing = xmtp.createGroup("Confessions", { superAdmins: ["bot-inbox"] });
+    assert.equal(existing.permissions.policySet.updateGroupNamePolicy, PermissionPolicy.Allow);
+
+    const group = await findOrCreateConfessGroup(xmtp.client, settings, [], { savedGroupId: existing.id });
+    assert.equal(group.id, existing.id);
+    assert.equal(group.permissions.policySet.addMemberPolicy, PermissionPolicy.Admin);
+    assert.equal(group.permissions.policySet.removeMemberPolicy, PermissionPolicy.SuperAdmin);
+    assert.equal(group.permissions.policySet.updateGroupImageUrlSquarePolicy, PermissionPolicy.Admin);
+  });
+});
+
+describe("/groupname, /groupdescription and /groupimage", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({ admins: ["boss"], players: { boss: {}, alice: {} }, groups: ["main", "defi"] });
+  });
+
+  afterEach(() => game.stop());
+
+  it("changes the group chat's details and audits it", async () => {
+    await game.dm("boss", "/groupname Summit Confessions");
+    game.expectDm("boss", `Renamed the group to "Summit Confessions".`);
+    await game.dm("boss", "/groupdescription Spill it");
+    game.expectDm("boss", "Updated the group's description.");
+    await game.dm("boss", "/groupimage https://example.com/spicy.png");
+    game.expectDm("boss", "Updated the group's image.");
+
+    assert.equal(game.group.name, "Summit Confessions");
+    assert.equal(game.group.description, "Spill it");
+    assert.equal(game.group.imageUrl, "https://example.com/spicy.png");
+    assert.deepEqual(
+      game.auditEntries.map(({ action, details }) => [action, details]),
+      [
+        ["groupname", "Summit Confessions"],
+        ["groupdescription", "Spill it"],
+        ["groupimage", "https://example.com/spicy.png"],
+      ]
+    );
+  });
+
+  it("won't give two groups the same name or take an image that isn't a web URL", async () => {
+    await game.dm("boss", "/groupname scenario group DEFI");
+    game.expectDm("boss", `Another confession group is already called "scenario group DEFI".`);
+    await game.dm("boss", "/groupimage javascript:alert(1)");
+    game.expectDm("boss", `"javascript:alert(1)" isn't an http or https URL.`);
+    assert.equal(game.group.name, "Scenario group");
+    assert.equal(game.group.imageUrl, "");
+  });
+
+  it("is for admins only", async () => {
+    await game.dm("alice", "/groupname Mine now");
+    game.expectDm("alice", "/groupname is only available to admins.");
+    assert.equal(game.group.name, "Scenario group");
+  });
+
+  it("says so when XMTP won't let the bot change the group", async () => {
+    mock.method(game.group, "updateName", async () => {
+      throw new Error("PermissionDenied");
+    });
+    await game.dm("boss", "/groupname Summit Confessions");
+    game.expectDm("boss", "Couldn't update the group. Is the bot still one of its admins?");
+    assert.deepEqual(game.auditEntries, []);
+  });
+});
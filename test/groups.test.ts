@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("several groups", () => {
+  let game: Scenario;
+  const store = (id: string) => game.games.find((g) => g.id === id)!.services.store;
+
+  beforeEach(async () => {
+    game = await createScenario({ admins: ["boss"], players: { boss: {}, alice: {}, bob: {} }, groups: ["main", "defi"] });
+  });
+
+  afterEach(() => game.stop());
+
+  it("lists the groups and sends DM commands to the one joined", async () => {
+    await game.dm("alice", "/join");
+    game.expectDm("alice", "👉 main: Scenario group (your DM commands go here)");
+
+    await game.dm("alice", "/join defi");
+    game.expectDm("alice", 'added to "Scenario group defi"');
+    await game.dm("alice", "/confess I love pizza");
+    game.expectGroup("I love pizza", "defi");
+    game.expectNoGroup("main");
+  });
+
+  it("keeps each group's game apart", async () => {
+    await game.dm("alice", "/join main");
+    await game.dm("bob", "/join defi");
+    await game.dm("alice", "/confess I love pizza");
+    await game.dm("bob", "/confess I hate mondays");
+    assert.deepEqual(
+      (await store("main").read()).questions.map((q) => q.question),
+      ["I love pizza"]
+    );
+    assert.deepEqual(
+      (await store("defi").read()).questions.map((q) => q.question),
+      ["I hate mondays"]
+    );
+
+    await game.dm("alice", "/join defi");
+    await game.post("alice", "/guess carol", { group: "defi" });
+    assert.equal((await store("defi").read()).questions[0].incorrectGuesses, 1);
+    assert.equal((await store("main").read()).questions[0].incorrectGuesses, 0);
+  });
+
+  it("turns away an unknown group", async () => {
+    await game.dm("alice", "/join nope");
+    game.expectDm("alice", `There's no "nope" group`);
+  });
+});
+
+describe("review with several groups", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({
+      admins: ["boss"],
+      players: { boss: {}, alice: {}, bob: {} },
+      groups: ["main", "defi"],
+      services: { moderation: { reviewMode: true, blockedWords: [] } },
+    });
+    await game.dm("alice", "/join main");
+    await game.dm("bob", "/join defi");
+    await game.dm("alice", "/confess I love pizza");
+    await game.dm("bob", "/confess I hate mondays");
+  });
+
+  afterEach(() => game.stop());
+
+  it("names the group in each review DM", async () => {
+    await game.dm("alice", "/confess I sing in the shower");
+    game.expectDm("boss", /Confession #2 for "Scenario group" is waiting for review[\s\S]*\/approve main 2 or \/reject main 2/);
+    await game.dm("bob", "/shh who brought the donuts?");
+    game.expectDm("boss", /Anonymous message #2 for "Scenario group defi"[\s\S]*\/approve defi 2/);
+  });
+
+  it("approves and rejects in the group named", async () => {
+    await game.dm("boss", "/approve defi 1");
+    game.expectDm("boss", "Approved submission #1.");
+    game.expectGroup("I hate mondays", "defi");
+    game.expectNoGroup("main");
+
+    await game.dm("boss", "/reject main #1 Not today");
+    game.expectDm("alice", "Reason: Not today");
+    game.expectNoGroup("main");
+  });
+
+  it("uses the admin's current group when none is named", async () => {
+    await game.dm("boss", "/approve 1");
+    game.expectGroup("I love pizza");
+    await game.dm("boss", "/approve 1");
+    game.expectDm("boss", 'There is no submission #1 waiting for review in "Scenario group"');
+    await game.dm("boss", "/approve nope 1");
+    game.expectDm("boss", `There's no "nope" group`);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { buildHints, parseCustomHint } from "../src/game/hints.js";
+import type { Confession } from "../src/store/index.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const ADDRESS = "0x1111111111111111111111111111111111111234";
+
+const confession = (overrides: Partial<Confession> = {}): Confession => ({
+  id: 1,
+  question: "I love pizza",
+  answer: "alice.base.eth",
+  confessorInboxId: "alice",
+  confessorAddress: ADDRESS,
+  status: "active",
+  incorrectGuesses: 0,
+  guesses: [],
+  hintsRevealed: 0,
+  timestamp: new Date(0).toISOString(),
+  ...overrides,
+});
+
+describe("hints", () => {
+  it("go from the confessor's own hint to the name's shape to the address", () => {
+    assert.deepEqual(buildHints(confession({ customHint: "I'm always hungry" })), [
+      { key: "hint.custom", vars: { hint: "I'm always hungry" } },
+      { key: "hint.lengthBeforeSuffix", vars: { length: 5, suffix: ".base.eth" } },
+      { key: "hint.firstLetter", vars: { letter: "A" } },
+      { key: "hint.masked", vars: { masked: "a***e.base.eth" } },
+      { key: "hint.address", vars: { ending: "1234" } },
+    ]);
+  });
+
+  it("only give the address away when the confessor has no name", () => {
+    assert.deepEqual(buildHints(confession({ answer: undefined })), [{ key: "hint.address", vars: { ending: "1234" } }]);
+  });
+
+  it("are split off a confession after hint:", () => {
+    assert.deepEqual(parseCustomHint("I love pizza hint: I'm always hungry"), {
+      confession: "I love pizza",
+      customHint: "I'm always hungry",
+    });
+    assert.deepEqual(parseCustomHint("hint: nothing else"), { confession: "hint: nothing else" });
+  });
+});
+
+describe("/hint", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({ players: { alice: { name: "alice.base.eth" }, bob: {}, carol: {} } });
+    for (const player of ["alice", "bob", "carol"]) await game.dm(player, "/join");
+  });
+
+  afterEach(() => game.stop());
+
+  it("posts the next hint and lowers the points for a correct guess", async () => {
+    await game.dm("alice", "/confess I love pizza hint: I'm always hungry");
+    await game.post("bob", "/hint");
+    game.expectGroup(/💡 Hint 1\/5 for #1: The confessor says: "I'm always hungry"\nA correct guess is now worth 8 points/);
+
+    await game.dm("bob", "/hint #1");
+    game.expectGroup('Hint 2/5 for #1: Their name has 5 characters (before ".base.eth")');
+    game.expectDm("bob", "Hint posted in the group!");
+  });
+
+  it("says so when every hint is out", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    for (let i = 0; i < 4; i++) await game.post("bob", "/hint");
+    await game.post("bob", "/hint");
+    game.expectGroup("All the hints for this confession are already out");
+  });
+
+  it("posts one on its own after enough wrong guesses", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    await game.post("bob", "/guess carol");
+    game.expectNoGroup();
+    await game.post("carol", "/guess bob");
+    game.expectGroup("💡 Hint 1/4 for #1");
+  });
+
+  it("has nothing to give without an open confession", async () => {
+    await game.post("bob", "/hint");
+    game.expectGroup("There is no active confession to get a hint for.");
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { logger, withLogContext } from "../src/helpers/logger.js";
+import { createCounter, formatMetrics } from "../src/helpers/metrics.js";
+import { createScenario } from "../src/testing/scenario.js";
+
+// Read once, on the logger's first use
+process.env.LOG_LEVEL = "info";
+process.env.LOG_FORMAT = "json";
+
+type LogLine = { level: string; msg: string; [field: string]: unknown };
+
+describe("logger", () => {
+  let lines: LogLine[];
+
+  beforeEach(() => {
+    lines = [];
+    const capture = (text: string) => lines.push(JSON.parse(text));
+    mock.method(console, "log", capture);
+    mock.method(console, "error", capture);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("drops lines below the configured level", () => {
+    logger.debug("noisy");
+    logger.info("kept");
+    logger.error("also kept");
+    assert.deepEqual(
+      lines.map(({ level, msg }) => [level, msg]),
+      [
+        ["info", "kept"],
+        ["error", "also kept"],
+      ]
+    );
+  });
+
+  it("adds the context's fields to everything logged inside it", async () => {
+    await withLogContext({ messageId: "m1" }, async () => {
+      await Promise.resolve();
+      logger.info("inside", { group: "main" });
+    });
+    logger.info("outside");
+    assert.equal(lines[0].messageId, "m1");
+    assert.equal(lines[0].group, "main");
+    assert.equal(lines[1].messageId, undefined);
+  });
+
+  it("keeps who sent anonymous commands and what was guessed out of the logs", async () => {
+    const game = await createScenario({ players: { alice: { name: "alice" }, bob: {} } });
+    try {
+      for (const player of ["alice", "bob"]) await game.dm(player, "/join");
+      lines = [];
+      await game.dm("alice", "/confess I love pizza");
+      await game.dm("alice", "/shh who brought the donuts?");
+      await game.dm("bob", "/guess alice");
+
+      const confessing = lines.find((line) => line.msg === "Handling /confess");
+      assert.ok(confessing);
+      assert.equal(confessing.sender, undefined);
+      assert.equal(confessing.conversationId, undefined);
+      const anonymous = lines.filter((line) => line.command === "confess" || line.command === "shh");
+      assert.ok(anonymous.length > 0);
+      assert.ok(anonymous.every((line) => !JSON.stringify(line).includes("alice")));
+
+      // Guesses aren't anonymous, but what was guessed is
+      assert.equal(lines.find((line) => line.msg === "Handling /guess")?.sender, "bob");
+      assert.ok(lines.every((line) => !line.msg.includes("guessed: alice")));
+    } finally {
+      await game.stop();
+    }
+  });
+});
+
+describe("metrics", () => {
+  it("formats counters by label in the Prometheus text format", () => {
+    const counter = createCounter("test_things_total", "Things, by kind");
+    counter.inc({ kind: 'a "quoted" kind' });
+    counter.inc({ kind: "plain" }, 2);
+    const text = formatMetrics();
+    assert.match(text, /# TYPE test_things_total counter/);
+    assert.match(text, /test_things_total\{kind="a \\"quoted\\" kind"\} 1/);
+    assert.match(text, /test_things_total\{kind="plain"\} 2/);
+  });
+
+  it("counts the commands the bot handles", async () => {
+    const game = await createScenario({ players: { alice: {} } });
+    mock.method(console, "log", () => {});
+    try {
+      await game.dm("alice", "/help");
+      assert.match(formatMetrics(), /confession_bot_commands_total\{command="help"\} 1/);
+    } finally {
+      mock.restoreAll();
+      await game.stop();
+    }
+  });
+});
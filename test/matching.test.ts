@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { matchGuess, normalizeName } from "../src/game/matching.js";
+import { getTruncatedAddress } from "../src/helpers/utils.js";
+import type { Confession } from "../src/store/index.js";
+import { createScenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const ADDRESS = "0xAbC1111111111111111111111111111111117890";
+
+const confession = (answer?: string): Confession => ({
+  id: 1,
+  question: "I love pizza",
+  answer,
+  confessorInboxId: "alice",
+  confessorAddress: ADDRESS,
+  status: "active",
+  incorrectGuesses: 0,
+  guesses: [],
+  hintsRevealed: 0,
+  timestamp: new Date(0).toISOString(),
+});
+
+describe("normalizeName", () => {
+  it("ignores case, accents, lookalike letters, a leading @ and name suffixes", () => {
+    assert.equal(normalizeName("  @Álice.base.eth "), "alice");
+    assert.equal(normalizeName("аlice.eth"), "alice");
+  });
+});
+
+describe("matchGuess", () => {
+  it("takes the name with or without its suffix", () => {
+    assert.equal(matchGuess(confession("alice.base.eth"), "alice"), "correct");
+    assert.equal(matchGuess(confession("alice.base.eth"), "@ALICE.base.eth"), "correct");
+  });
+
+  it("calls a typo or two a near miss, fewer for short names", () => {
+    assert.equal(matchGuess(confession("alicia.eth"), "alcia"), "close");
+    assert.equal(matchGuess(confession("alicia.eth"), "bob"), "wrong");
+    assert.equal(matchGuess(confession("bob.eth"), "bo"), "close");
+    assert.equal(matchGuess(confession("bob.eth"), "b"), "wrong");
+  });
+
+  it("takes the full or shortened address, with or without @", () => {
+    const confessedByAddress = confession();
+    assert.equal(matchGuess(confessedByAddress, ADDRESS.toLowerCase()), "correct");
+    assert.equal(matchGuess(confessedByAddress, "0xabc1…7890"), "correct");
+    assert.equal(matchGuess(confessedByAddress, "@0xAbC1...7890"), "correct");
+    assert.equal(matchGuess(confessedByAddress, " @ 0xabc1...7890"), "correct");
+    assert.equal(matchGuess(confessedByAddress, "@0xabc1...7891"), "wrong");
+  });
+
+  it("doesn't read an address guess as a name", () => {
+    assert.equal(matchGuess(confession("0xabc1"), "0xabc2...7890"), "wrong");
+  });
+});
+
+describe("/guess by address", () => {
+  it("solves a confession from the shortened address with a leading @", async () => {
+    const game = await createScenario({ players: { alice: {}, bob: {} } });
+    try {
+      for (const player of ["alice", "bob"]) await game.dm(player, "/join");
+      await game.dm("alice", "/confess I love pizza");
+      await game.post("bob", `/guess @${getTruncatedAddress(game.xmtp.getAddress("alice"))}`);
+      game.expectGroup("correctly guessed who made confession #1");
+    } finally {
+      await game.stop();
+    }
+  });
+});
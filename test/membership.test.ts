@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { addMemberWithConsent } from "../src/game/membership.js";
+import { DEFAULT_GROUP_PERMISSIONS, findOrCreateConfessGroup, isGroupMember } from "../src/offsite.js";
+import { createFakeXmtp } from "../src/testing/fakeXmtp.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("/leave", () => {
+  let game: Scenario;
+
+  afterEach(() => game.stop());
+
+  it("removes the player, answers in their DMs and keeps them from being added back", async () => {
+    game = await createScenario({ players: { alice: {} } });
+    await game.dm("alice", "/join");
+    assert.ok(await isGroupMember(game.group, "alice"));
+
+    await game.post("alice", "/leave");
+    game.expectDm("alice", `You've left "Scenario group". I won't add you back unless you send /join main.`);
+    game.expectNoGroup();
+    assert.equal(await isGroupMember(game.group, "alice"), false);
+    assert.deepEqual((await game.services.store.read()).doNotAddInboxIds, ["alice"]);
+    assert.equal(
+      await addMemberWithConsent({ ...game.services, client: game.xmtp.client, group: game.group }, "alice"),
+      "optedOut"
+    );
+
+    // Their own /join is consent again
+    await game.dm("alice", "/join");
+    assert.ok(await isGroupMember(game.group, "alice"));
+    assert.deepEqual((await game.services.store.read()).doNotAddInboxIds, []);
+  });
+
+  it("still opts out someone who isn't a member", async () => {
+    game = await createScenario({ players: { alice: {} } });
+    await game.dm("alice", "/leave");
+    game.expectDm("alice", `You're not in "Scenario group"`);
+    assert.deepEqual((await game.services.store.read()).doNotAddInboxIds, ["alice"]);
+  });
+
+  it("leaves every group with /leave all", async () => {
+    game = await createScenario({ players: { alice: {} }, groups: ["main", "defi"] });
+    await game.dm("alice", "/join main");
+    await game.dm("alice", "/join defi");
+
+    await game.dm("alice", "/leave all");
+    game.expectDm("alice", "You've left every confession group");
+    for (const { group, services } of game.games) {
+      assert.equal(await isGroupMember(group, "alice"), false);
+      assert.deepEqual((await services.store.read()).doNotAddInboxIds, ["alice"]);
+    }
+  });
+});
+
+describe("findOrCreateConfessGroup", () => {
+  const settings = { name: "Confessions", description: "", permissions: DEFAULT_GROUP_PERMISSIONS };
+
+  it("adds configured admins as super admins", async () => {
+    const xmtp = createFakeXmtp();
+    const bossAddress = xmtp.registerInbox("boss");
+    const existing = xmtp.createGroup("Confessions", { superAdmins: ["bot-inbox"] });
+
+    const group = await findOrCreateConfessGroup(xmtp.client, settings, [bossAddress], { savedGroupId: existing.id });
+    assert.equal(group.id, existing.id);
+    assert.ok(await isGroupMember(group, "boss"));
+    assert.ok(group.superAdmins.includes("boss"));
+  });
+
+  it("doesn't add back an admin who left", async () => {
+    const xmtp = createFakeXmtp();
+    const bossAddress = xmtp.registerInbox("boss");
+    const existing = xmtp.createGroup("Confessions", { superAdmins: ["bot-inbox"] });
+
+    const group = await findOrCreateConfessGroup(xmtp.client, settings, [bossAddress], {
+      savedGroupId: existing.id,
+      doNotAddInboxIds: ["boss"],
+    });
+    assert.equal(await isGroupMember(group, "boss"), false);
+    assert.ok(!group.superAdmins.includes("boss"));
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { DEFAULT_MODERATION_CONFIG, findContentViolation } from "../src/game/moderation.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("content filter", () => {
+  const config = { ...DEFAULT_MODERATION_CONFIG, blockedWords: ["darn"] };
+
+  it("lets ordinary confessions through", () => {
+    assert.equal(findContentViolation("I once ate a whole pizza at 3am", config), undefined);
+  });
+
+  it("names what's wrong with personal details", () => {
+    assert.equal(findContentViolation("mail me at alice@example.com", config), "moderation.email");
+    assert.equal(findContentViolation("call 555-123-4567", config), "moderation.phone");
+    assert.equal(findContentViolation("I live at 12 Main Street", config), "moderation.streetAddress");
+    assert.equal(
+      findContentViolation("send it to 0x1111111111111111111111111111111111111111", config),
+      "moderation.walletAddress"
+    );
+    assert.equal(findContentViolation("ask alice.base.eth", config), "moderation.ensName");
+  });
+
+  it("blocks configured words only as whole words", () => {
+    assert.equal(findContentViolation("Darn it", config), "moderation.blockedWord");
+    assert.equal(findContentViolation("darning socks", config), undefined);
+  });
+});
+
+describe("review mode", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({
+      admins: ["boss"],
+      players: { boss: {}, alice: {}, bob: {} },
+      services: { moderation: { reviewMode: true, blockedWords: [] } },
+    });
+    await game.dm("alice", "/join");
+  });
+
+  afterEach(() => game.stop());
+
+  it("holds a confession until an admin approves it", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    game.expectDm("alice", "waiting for a moderator");
+    game.expectDm("boss", /Confession #1 for "Scenario group" is waiting for review[\s\S]*\/approve 1 or \/reject 1/);
+    game.expectNoGroup();
+
+    await game.dm("boss", "/approve 1");
+    game.expectDm("boss", "Approved submission #1.");
+    game.expectDm("alice", "Your confession was approved!");
+    game.expectGroup('"I love pizza"');
+    assert.deepEqual((await game.services.store.read()).pendingSubmissions, []);
+  });
+
+  it("tells the submitter why an admin turned it down", async () => {
+    await game.dm("alice", "/shh meet me by the stage");
+    await game.dm("boss", "/reject 1 Please keep it friendly");
+    game.expectDm("alice", "wasn't approved. Reason: Please keep it friendly");
+    game.expectNoGroup();
+
+    await game.dm("boss", "/approve 1");
+    game.expectDm("boss", "There is no submission #1 waiting for review");
+  });
+
+  it("refuses a submission with personal details before review", async () => {
+    await game.dm("alice", "/confess text me on 555-123-4567");
+    game.expectDm("alice", "phone number");
+    assert.deepEqual(game.dmsTo("boss"), []);
+  });
+});
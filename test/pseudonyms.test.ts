@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { DEFAULT_SHH_CONFIG, getShhConfigFromEnv, parsePseudonym } from "../src/game/pseudonyms.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const HOUR_MS = 60 * 60_000;
+
+describe("parsePseudonym", () => {
+  it("reads the number, the word if given and the rest", () => {
+    assert.deepEqual(parsePseudonym("Anon Pepper #3 see you there"), { word: "Pepper", number: 3, rest: "see you there" });
+    assert.deepEqual(parsePseudonym("pepper #3"), { word: "pepper", number: 3, rest: "" });
+    assert.deepEqual(parsePseudonym("#12 hi"), { word: undefined, number: 12, rest: "hi" });
+  });
+
+  it("needs a number", () => {
+    assert.equal(parsePseudonym("Anon Pepper hi"), undefined);
+    assert.equal(parsePseudonym(""), undefined);
+  });
+});
+
+describe("getShhConfigFromEnv", () => {
+  afterEach(() => {
+    delete process.env.SHH_SESSION_MINUTES;
+    delete process.env.SHH_REVEAL_TO_ADMINS;
+  });
+
+  it("falls back to the base config", () => {
+    assert.deepEqual(getShhConfigFromEnv(), DEFAULT_SHH_CONFIG);
+  });
+
+  it("reads the session length in minutes and whether admins may unmask", () => {
+    process.env.SHH_SESSION_MINUTES = "5";
+    process.env.SHH_REVEAL_TO_ADMINS = "true";
+    assert.deepEqual(getShhConfigFromEnv(), { sessionMs: 5 * 60_000, revealToAdmins: true });
+  });
+
+  it("turns away a session shorter than a minute", () => {
+    process.env.SHH_SESSION_MINUTES = "0";
+    assert.throws(() => getShhConfigFromEnv(), /Invalid SHH_SESSION_MINUTES "0"/);
+  });
+});
+
+describe("/shh pseudonyms and /whisper", () => {
+  let game: Scenario;
+
+  afterEach(() => game.stop());
+
+  // Helper to send a /shh and get the pseudonym it went out under
+  const shh = async (inboxId: string, text: string) => {
+    await game.dm(inboxId, `/shh ${text}`);
+    const relayed = game.expectGroup(text);
+    const name = relayed.match(/^🤫 (Anon \p{L}+ #\d+): /u)?.[1];
+    assert.ok(name, `No pseudonym in "${relayed}"`);
+    return name;
+  };
+
+  it("keeps the same pseudonym for a session and starts a new one after it", async () => {
+    game = await createScenario({ players: { alice: {}, bob: {} } });
+    const first = await shh("alice", "who brought the donuts?");
+    assert.match(first, /#1$/);
+    game.expectDm("alice", `Message relayed anonymously as ${first}!`);
+    assert.equal(await shh("alice", "they were great"), first);
+    assert.match(await shh("bob", "me!"), /#2$/);
+
+    await game.advance(HOUR_MS);
+    assert.match(await shh("alice", "any left?"), /#3$/);
+  });
+
+  it("delivers a whisper without telling the sender who's behind the pseudonym", async () => {
+    game = await createScenario({ players: { alice: { name: "Alice" }, bob: { name: "Bob" } } });
+    const name = await shh("alice", "who brought the donuts?");
+
+    await game.dm("bob", `/whisper ${name} it was me`);
+    game.expectDm("alice", `🤫 Bob whispered to you (${name}): it was me`);
+    game.expectDm("bob", `Whisper sent to ${name}!`);
+    for (const dm of game.dmsTo("bob")) {
+      assert.ok(!dm.includes("Alice") && !dm.includes(game.xmtp.getAddress("alice")));
+    }
+  });
+
+  it("turns away unknown and ended pseudonyms, and whispers with personal details", async () => {
+    game = await createScenario({ players: { alice: {}, bob: {} } });
+    await game.dm("bob", "/whisper #7 hello");
+    game.expectDm("bob", `There's no one going by "#7" right now`);
+
+    const name = await shh("alice", "who brought the donuts?");
+    await game.dm("bob", `/whisper ${name} mail me at bob@example.com`);
+    game.expectDm("bob", "Your whisper wasn't sent");
+    assert.deepEqual(game.dmsTo("alice"), []);
+
+    await game.advance(HOUR_MS);
+    await game.dm("bob", `/whisper ${name} still there?`);
+    game.expectDm("bob", "There's no one going by");
+    assert.deepEqual(game.dmsTo("alice"), []);
+  });
+
+  it("shows the usage without a pseudonym or a message", async () => {
+    game = await createScenario({ players: { bob: {} } });
+    await game.dm("bob", "/whisper #1");
+    game.expectDm("bob", "/whisper [pseudonym] [message]");
+  });
+});
+
+describe("/unmask", () => {
+  let game: Scenario;
+
+  afterEach(() => game.stop());
+
+  it("is off unless the config allows it", async () => {
+    game = await createScenario({ admins: ["boss"], players: { boss: {}, alice: {} } });
+    await game.dm("alice", "/shh hello");
+    await game.dm("boss", "/unmask #1");
+    game.expectDm("boss", "Unmasking pseudonyms is turned off");
+  });
+
+  it("tells an admin who is behind a pseudonym, even after the session ended", async () => {
+    game = await createScenario({
+      admins: ["boss"],
+      players: { boss: {}, alice: { name: "Alice" } },
+      services: { shh: { ...DEFAULT_SHH_CONFIG, revealToAdmins: true } },
+    });
+    await game.dm("alice", "/shh hello");
+    const name = game.expectGroup("hello").match(/(Anon \p{L}+ #1)/u)![1];
+    await game.advance(2 * HOUR_MS);
+
+    await game.dm("boss", `/unmask ${name}`);
+    game.expectDm("boss", `${name} is Alice ${game.xmtp.getAddress("alice")}.`);
+    assert.deepEqual(game.auditEntries.at(-1), {
+      adminInboxId: "boss",
+      action: "unmask",
+      target: name,
+      group: "main",
+    });
+
+    await game.dm("boss", "/unmask #9");
+    game.expectDm("boss", `There's no pseudonym "#9".`);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+// Acts as if the bot stopped after handling a player's latest message but before marking it
+// handled: forgets that it was, drops the stream and lets catch-up find it again. Returns
+// what the bot sent while catching up.
+async function replayLatest(game: Scenario, fromInboxId: string) {
+  const message = [...game.xmtp.sent].reverse().find((m) => m.senderInboxId === fromInboxId);
+  assert.ok(message, `No message from ${fromInboxId}`);
+  await game.services.store.update((state) => {
+    state.processedMessageIds = state.processedMessageIds.filter((id) => id !== message.id);
+  });
+  const before = game.xmtp.sent.length;
+  game.xmtp.closeStream();
+  await sleep(50);
+  assert.ok((await game.services.store.read()).processedMessageIds.includes(message.id), "Not caught up on");
+  return game.xmtp.sent.slice(before).filter((m) => m.senderInboxId === game.xmtp.client.inboxId);
+}
+
+describe("a message handled again after a restart", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({ admins: ["boss"], players: { boss: {}, alice: { name: "alice" }, bob: {} } });
+    for (const player of ["alice", "bob"]) await game.dm(player, "/join");
+  });
+
+  afterEach(() => game.stop());
+
+  it("doesn't save or post a confession twice", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    // The confessor hears again that it's saved, but the group doesn't see it again
+    assert.ok((await replayLatest(game, "alice")).every((m) => m.isDm));
+    assert.equal((await game.services.store.read()).questions.length, 1);
+  });
+
+  it("doesn't count a guess twice", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    await game.post("bob", "/guess carol");
+    await replayLatest(game, "bob");
+    const { questions, players } = await game.services.store.read();
+    assert.equal(questions[0].incorrectGuesses, 1);
+    assert.equal(players.bob.wrongGuesses, 1);
+  });
+
+  it("doesn't reveal another hint", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    await game.post("bob", "/hint");
+    assert.deepEqual(await replayLatest(game, "bob"), []);
+    assert.equal((await game.services.store.read()).questions[0].hintsRevealed, 1);
+  });
+
+  it("doesn't relay a /shh or forward a /whisper twice", async () => {
+    await game.dm("alice", "/shh who brought the donuts?");
+    assert.deepEqual(await replayLatest(game, "alice"), []);
+    const { pseudonyms } = await game.services.store.read();
+
+    await game.post("bob", `/whisper #${pseudonyms[0].number} it was me`);
+    game.expectDm("alice", "it was me");
+    assert.deepEqual(await replayLatest(game, "bob"), []);
+  });
+
+  it("doesn't retract another confession", async () => {
+    await game.dm("bob", "/confess I hate mondays");
+    await game.dm("alice", "/confess I love pizza");
+    await game.dm("alice", "/confess I sing in the shower");
+    await game.dm("alice", "/retract");
+    await replayLatest(game, "alice");
+    assert.deepEqual(
+      (await game.services.store.read()).questions.map((q) => q.question),
+      ["I hate mondays", "I love pizza"]
+    );
+  });
+
+  it("doesn't announce again or wipe a game started since a reset", async () => {
+    await game.dm("boss", "/announce Pizza in the lobby!");
+    const replayed = await replayLatest(game, "boss");
+    assert.deepEqual(
+      replayed.map((m) => m.content),
+      ["Announcement sent."]
+    );
+
+    await game.dm("boss", "/reset");
+    await game.services.store.update((state) => {
+      state.players.alice = { inboxId: "alice", points: 5, correctGuesses: 0, wrongGuesses: 0 };
+    });
+    assert.deepEqual(
+      (await replayLatest(game, "boss")).map((m) => m.content),
+      ["Game reset."]
+    );
+    assert.equal((await game.services.store.read()).players.alice?.points, 5);
+  });
+});
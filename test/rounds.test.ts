@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { DEFAULT_ROUND_CONFIG } from "../src/game/rounds.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const MINUTE = 60_000;
+
+// Starts a game with alice's confession up and bob's waiting behind it
+async function startWithTwoConfessions(rounds = DEFAULT_ROUND_CONFIG) {
+  const game = await createScenario({ players: { alice: {}, bob: {} }, services: { rounds } });
+  for (const player of ["alice", "bob"]) await game.dm(player, "/join");
+  await game.dm("alice", "/confess I love pizza");
+  await game.dm("bob", "/confess I hate mondays");
+  return game;
+}
+
+describe("round timers", () => {
+  let game: Scenario;
+
+  afterEach(() => game.stop());
+
+  it("queues a confession while another one is up", async () => {
+    game = await startWithTwoConfessions();
+    const { questions } = await game.services.store.read();
+    assert.deepEqual(
+      questions.map((q) => q.status),
+      ["active", "queued"]
+    );
+  });
+
+  it("reminds the group, then ends the round and starts the next one", async () => {
+    game = await startWithTwoConfessions();
+
+    await game.advance(24 * MINUTE);
+    game.expectNoGroup();
+    await game.advance(MINUTE);
+    game.expectGroup("⏳ 5 minutes left to guess who confessed #1");
+    await game.advance(MINUTE);
+    game.expectNoGroup();
+
+    await game.advance(4 * MINUTE);
+    game.expectGroup("⏰ Time's up! Nobody guessed who confessed #1");
+    game.expectGroup('Next Confession #2: "I hate mondays"');
+    game.expectDm("alice", "Nobody guessed your confession #1");
+
+    const { questions, players } = await game.services.store.read();
+    assert.deepEqual(
+      questions.map((q) => q.status),
+      ["expired", "active"]
+    );
+    assert.ok(players.alice.points > 0);
+  });
+
+  it("reveals the confessor when time runs out in reveal mode", async () => {
+    game = await startWithTwoConfessions({ ...DEFAULT_ROUND_CONFIG, timeoutAction: "reveal" });
+    await game.advance(30 * MINUTE);
+    game.expectGroup(/⏰ Time's up! #1 "I love pizza" was confessed by/);
+    assert.equal((await game.services.store.read()).questions[0].status, "revealed");
+  });
+
+  it("keeps a confession up without a time limit", async () => {
+    game = await startWithTwoConfessions({ ...DEFAULT_ROUND_CONFIG, durationMs: 0 });
+    await game.advance(24 * 60 * MINUTE);
+    game.expectNoGroup();
+    assert.equal((await game.services.store.read()).questions[0].status, "active");
+  });
+
+  it("opens several confessions at once up to the limit", async () => {
+    game = await startWithTwoConfessions({ ...DEFAULT_ROUND_CONFIG, maxOpen: 2 });
+    const { questions } = await game.services.store.read();
+    assert.deepEqual(
+      questions.map((q) => q.status),
+      ["active", "active"]
+    );
+  });
+});
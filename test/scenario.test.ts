@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+// The listener logs every message it handles; keep the test output to failures
+process.env.LOG_LEVEL ??= "error";
+
+const PLAYERS = ["alice", "bob", "carol"];
+
+describe("confessions", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({ players: Object.fromEntries(PLAYERS.map((name) => [name, { name }])) });
+    for (const player of PLAYERS) await game.dm(player, "/join");
+  });
+
+  afterEach(() => game.stop());
+
+  it("posts a confession and scores the player who guesses it", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    game.expectGroup('Confession #1: "I love pizza"');
+
+    await game.post("bob", "/guess carol");
+    game.expectReaction("❌");
+
+    await game.post("carol", "/guess alice");
+    game.expectGroup(/carol correctly guessed who made confession #1/);
+
+    const { players, questions } = await game.services.store.read();
+    assert.equal(questions[0].status, "solved");
+    assert.equal(players.carol.correctGuesses, 1);
+    assert.equal(players.bob.wrongGuesses, 1);
+  });
+
+  it("won't let a player guess their own confession", async () => {
+    await game.dm("alice", "/confess I love pizza");
+    await game.post("alice", "/guess alice");
+    game.expectDm("alice", "can't guess your own confession");
+  });
+
+  it("asks who's confessing to /join first", async () => {
+    await game.dm("dan", "/confess I love pizza");
+    game.expectDm("dan", "Send /join to join");
+    game.expectNoGroup();
+  });
+});
+
+describe("two truths and a lie", () => {
+  let game: Scenario;
+
+  beforeEach(async () => {
+    game = await createScenario({ admins: ["boss"], players: { boss: {}, alice: {}, bob: {}, carol: {} } });
+    for (const player of ["alice", "bob", "carol"]) await game.dm(player, "/join");
+    await game.dm("boss", "/mode two-truths");
+  });
+
+  afterEach(() => game.stop());
+
+  it("counts each player's latest vote when voting ends", async () => {
+    await game.dm("alice", "/truths I have a twin | I've been to Japan | I hate coffee lie: 3");
+    game.expectGroup("Which one is the lie?");
+
+    await game.post("bob", "/lie 3");
+    game.expectReaction("🗳️");
+    await game.post("carol", "/lie 3");
+    await game.post("carol", "/lie 1");
+    game.expectReaction("🗳️");
+
+    await game.dm("boss", "/reveal");
+    game.expectGroup("1 of 2 voters spotted it");
+
+    const { players, questions } = await game.services.store.read();
+    assert.equal(questions[0].status, "revealed");
+    assert.deepEqual(
+      questions[0].votes?.map(({ inboxId, choice }) => [inboxId, choice]),
+      [
+        ["bob", 3],
+        ["carol", 1],
+      ]
+    );
+    assert.equal(players.bob.points, 5);
+    assert.equal(players.carol.points, 0);
+  });
+
+  it("points /guess at /lie while the round is a two truths one", async () => {
+    await game.dm("alice", "/truths I have a twin | I've been to Japan | I hate coffee lie: 3");
+    await game.post("bob", "/guess alice");
+    game.expectGroup("Vote on which statement is the lie with /lie #1");
+  });
+});
+
+describe("listener", () => {
+  it("catches up on a DM sent while the stream was down, once", async () => {
+    const game = await createScenario({ players: { alice: {} } });
+    try {
+      await game.dm("alice", "/join");
+      game.xmtp.closeStream();
+      await game.dm("alice", "/confess I love pizza");
+      await sleep(50);
+      assert.equal(game.dmsTo("alice").filter((text) => text.startsWith("Confession saved")).length, 1);
+      assert.equal((await game.services.store.read()).questions.length, 1);
+    } finally {
+      await game.stop();
+    }
+  });
+});
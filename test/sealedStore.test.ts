@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createSealer, type Sealer } from "../src/helpers/sealer.js";
+import { createJsonGameStore } from "../src/store/jsonStore.js";
+import { createMemoryGameStore, migrateLegacyGameFile, type Confession } from "../src/store/index.js";
+import { createSealedGameStore } from "../src/store/sealedStore.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const confession = (id: number, overrides: Partial<Confession> = {}): Confession => ({
+  id,
+  question: `Confession ${id}`,
+  answer: "alice",
+  confessorInboxId: "alice-inbox",
+  confessorAddress: "0xa11ce00000000000000000000000000000000001",
+  status: "active",
+  incorrectGuesses: 0,
+  guesses: [],
+  hintsRevealed: 0,
+  timestamp: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+// Counts how often the sealer is used, to check what the store decrypts and encrypts
+const countingSealer = (sealer: Sealer) => {
+  const calls = { seal: 0, open: 0 };
+  return {
+    calls,
+    sealer: {
+      seal: (text: string) => (calls.seal++, sealer.seal(text)),
+      open: (sealed: string) => (calls.open++, sealer.open(sealed)),
+    },
+  };
+};
+
+describe("sealed game store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sealed-store-"));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("keeps answers and who confessed out of the file but gives them back to game logic", async () => {
+    const filePath = path.join(dir, "game.json");
+    const store = createSealedGameStore(await createJsonGameStore(filePath), createSealer("key"));
+    await store.update((state) => {
+      state.questions.push(confession(1, { answer: "Wonderland" }));
+      state.pendingSubmissions.push({
+        id: 1,
+        kind: "shh",
+        text: "psst",
+        submitterInboxId: "bob-inbox",
+        submitterName: "Bob",
+        timestamp: "2026-01-01T00:00:00.000Z",
+      });
+    });
+    await store.close();
+
+    const raw = await fs.readFile(filePath, "utf-8");
+    for (const secret of ["Wonderland", "alice-inbox", "0xa11ce", "bob-inbox", "Bob"]) {
+      assert.ok(!raw.includes(secret), `${secret} is in the stored file`);
+    }
+
+    const reopened = createSealedGameStore(await createJsonGameStore(filePath), createSealer("key"));
+    const state = await reopened.read();
+    assert.equal(state.questions[0].answer, "Wonderland");
+    assert.equal(state.questions[0].confessorInboxId, "alice-inbox");
+    assert.equal(state.pendingSubmissions[0].submitterInboxId, "bob-inbox");
+    await reopened.close();
+  });
+
+  it("says the key may have changed when it can't decrypt", async () => {
+    const filePath = path.join(dir, "game.json");
+    const store = createSealedGameStore(await createJsonGameStore(filePath), createSealer("key"));
+    await store.update((state) => {
+      state.questions.push(confession(1));
+    });
+    await store.close();
+
+    const reopened = createSealedGameStore(await createJsonGameStore(filePath), createSealer("another key"));
+    await assert.rejects(reopened.read(), /Could not decrypt confession #1\. Was ENCRYPTION_KEY changed\?/);
+    await reopened.close();
+  });
+
+  it("decrypts each identity once and only seals it again when it changes", async () => {
+    const { sealer, calls } = countingSealer(createSealer("key"));
+    const store = createSealedGameStore(createMemoryGameStore(), sealer);
+    await store.update((state) => {
+      state.questions.push(confession(1), confession(2, { answer: "bob" }));
+    });
+    assert.deepEqual(calls, { seal: 2, open: 0 });
+
+    // What every incoming message does: check it was handled, then record it
+    for (let i = 0; i < 5; i++) {
+      await store.read();
+      await store.update((state) => {
+        state.processedMessageIds.push(`message-${i}`);
+      });
+    }
+    assert.deepEqual(calls, { seal: 2, open: 0 });
+
+    await store.update((state) => {
+      state.questions[1].answer = "carol";
+    });
+    assert.deepEqual(calls, { seal: 3, open: 0 });
+    assert.deepEqual(
+      (await store.read()).questions.map((q) => q.answer),
+      ["alice", "carol"]
+    );
+  });
+
+  it("seals confessions written before sealing on the next write", async () => {
+    const inner = createMemoryGameStore();
+    await inner.update((state) => {
+      state.questions.push(confession(1));
+    });
+    const store = createSealedGameStore(inner, createSealer("key"));
+    assert.equal((await store.read()).questions[0].confessorInboxId, "alice-inbox");
+
+    await store.update(() => {});
+    const [stored] = (await inner.read()).questions;
+    assert.equal(stored.confessorInboxId, "");
+    assert.equal(stored.answer, undefined);
+    assert.ok(stored.sealedIdentity);
+    assert.equal((await store.read()).questions[0].answer, "alice");
+  });
+});
+
+describe("migrateLegacyGameFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "legacy-game-"));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("moves legacy confessions in as ended rounds and deletes the file", async () => {
+    const filePath = path.join(dir, "game.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        questions: [
+          { question: "I ate the cake", answer: "alice", isComplete: true, incorrectGuesses: 2 },
+          { question: "I broke the vase", answer: "bob", isComplete: false, timestamp: "2024-05-01T00:00:00.000Z" },
+        ],
+      })
+    );
+    const store = createMemoryGameStore();
+    const now = new Date("2026-01-01T00:00:00.000Z");
+
+    assert.equal(await migrateLegacyGameFile(store, filePath, now), 2);
+    const { questions, nextConfessionId } = await store.read();
+    assert.deepEqual(
+      questions.map(({ id, question, status, timestamp }) => ({ id, question, status, timestamp })),
+      [
+        { id: 1, question: "I ate the cake", status: "solved", timestamp: now.toISOString() },
+        { id: 2, question: "I broke the vase", status: "expired", timestamp: "2024-05-01T00:00:00.000Z" },
+      ]
+    );
+    assert.equal(nextConfessionId, 3);
+    await assert.rejects(fs.access(filePath));
+
+    // Nothing left to move the next time the bot starts
+    assert.equal(await migrateLegacyGameFile(store, filePath, now), 0);
+    assert.equal((await store.read()).questions.length, 2);
+  });
+
+  it("leaves a file it can't read in place", async () => {
+    const filePath = path.join(dir, "game.json");
+    await fs.writeFile(filePath, JSON.stringify({ questions: [{ answer: "alice" }] }));
+    const store = createMemoryGameStore();
+
+    await assert.rejects(migrateLegacyGameFile(store, filePath), /Could not migrate .*game\.json: expected/);
+    await fs.access(filePath);
+    assert.deepEqual((await store.read()).questions, []);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { startStatusServer } from "../src/server.js";
+import { createScenario, type Scenario } from "../src/testing/scenario.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+describe("status server", () => {
+  let game: Scenario;
+  let server: ReturnType<typeof startStatusServer>;
+  let baseUrl: string;
+
+  before(async () => {
+    game = await createScenario({ players: { alice: { name: "alice" }, bob: {} } });
+    for (const player of ["alice", "bob"]) await game.dm(player, "/join");
+    await game.dm("alice", "/confess I love pizza");
+    await game.dm("bob", "/confess I hate mondays");
+    server = startStatusServer(game.games, { connected: true, retryCount: 0 }, { port: 0, adminToken: "s3cret" });
+    await once(server, "listening");
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.close();
+    await game.stop();
+  });
+
+  it("reports health", async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).connected, true);
+  });
+
+  it("shows open confessions without who made them", async () => {
+    const res = await fetch(`${baseUrl}/api/game`);
+    const body = await res.json();
+    assert.equal(body.queueLength, 1);
+    assert.deepEqual(
+      body.open.map((confession: { id: number; question: string }) => [confession.id, confession.question]),
+      [[1, "I love pizza"]]
+    );
+    const raw = JSON.stringify(body);
+    assert.ok(!raw.includes("alice") && !raw.includes(game.xmtp.getAddress("alice")));
+  });
+
+  it("lists the groups and turns away unknown ones", async () => {
+    assert.deepEqual(await (await fetch(`${baseUrl}/api/groups`)).json(), [{ id: "main", name: "Scenario group" }]);
+    assert.equal((await fetch(`${baseUrl}/api/game?group=nope`)).status, 404);
+  });
+
+  it("only shows the review queue with the admin token", async () => {
+    assert.equal((await fetch(`${baseUrl}/api/admin/queue`)).status, 401);
+    assert.equal((await fetch(`${baseUrl}/api/admin/queue?token=wrong`)).status, 401);
+    const res = await fetch(`${baseUrl}/api/admin/queue`, { headers: { Authorization: "Bearer s3cret" } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      (await res.json()).queued.map((confession: { id: number }) => confession.id),
+      [2]
+    );
+  });
+
+  it("refuses anything but GET", async () => {
+    assert.equal((await fetch(`${baseUrl}/api/game`, { method: "POST" })).status, 405);
+  });
+});
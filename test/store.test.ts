@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createJsonGameStore } from "../src/store/jsonStore.js";
+import { createMemoryGameStore, type GameStore } from "../src/store/index.js";
+import { createSqliteGameStore } from "../src/store/sqliteStore.js";
+
+// Each backend, opened on a fresh file in a temp directory so reopening it sees what was saved
+const BACKENDS: Record<string, (dir: string) => Promise<GameStore>> = {
+  json: (dir) => createJsonGameStore(path.join(dir, "game.json")),
+  sqlite: (dir) => createSqliteGameStore(path.join(dir, "game.db3")),
+};
+
+for (const [name, open] of Object.entries(BACKENDS)) {
+  describe(`${name} game store`, () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "game-store-"));
+    });
+
+    afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+    it("starts empty and keeps updates across reopening", async () => {
+      const store = await open(dir);
+      assert.deepEqual((await store.read()).questions, []);
+      await store.update((state) => {
+        state.nextConfessionId = 7;
+        state.bannedInboxIds.push("mallory");
+      });
+      await store.close();
+
+      const reopened = await open(dir);
+      const state = await reopened.read();
+      assert.equal(state.nextConfessionId, 7);
+      assert.deepEqual(state.bannedInboxIds, ["mallory"]);
+      await reopened.close();
+    });
+
+    it("applies concurrent updates one after another", async () => {
+      const store = await open(dir);
+      await Promise.all(
+        Array.from({ length: 20 }, () =>
+          store.update(async (state) => {
+            const next = state.nextConfessionId;
+            await new Promise((resolve) => setImmediate(resolve));
+            state.nextConfessionId = next + 1;
+          })
+        )
+      );
+      assert.equal((await store.read()).nextConfessionId, 21);
+      await store.close();
+    });
+
+    it("writes nothing when an update throws, and keeps going", async () => {
+      const store = await open(dir);
+      await assert.rejects(
+        store.update((state) => {
+          state.nextConfessionId = 99;
+          throw new Error("boom");
+        }),
+        /boom/
+      );
+      assert.equal(await store.update((state) => ++state.nextConfessionId), 2);
+      await store.close();
+    });
+  });
+}
+
+describe("memory game store", () => {
+  it("hands out snapshots that don't change the stored state", async () => {
+    const store = createMemoryGameStore();
+    const snapshot = await store.read();
+    snapshot.bannedInboxIds.push("mallory");
+    assert.deepEqual((await store.read()).bannedInboxIds, []);
+  });
+
+  it("leaves the state untouched when an update throws", async () => {
+    const store = createMemoryGameStore();
+    await assert.rejects(
+      store.update((state) => {
+        state.bannedInboxIds.push("mallory");
+        throw new Error("boom");
+      })
+    );
+    assert.deepEqual((await store.read()).bannedInboxIds, []);
+  });
+});